@@ -12,6 +12,114 @@ let debuggerAttached = false;
 let captureIntervalId = null;
 // Capture rate in milliseconds
 const CAPTURE_RATE = 400;
+// Tab whose CDP Network events are tracked (Network domain enabled on first use)
+let networkTabId = null;
+// In-flight requests of that tab (requestId -> url) and time of the last network event
+const inflightRequests = new Map();
+let lastNetworkActivity = 0;
+// XHR/fetch requests recorded while Network is tracked (requestId -> entry, oldest first)
+const networkLog = new Map();
+const MAX_NETWORK_LOG = 200;
+// When tracking started on networkTabId (earlier requests weren't seen)
+let networkTrackedSince = 0;
+// Tab whose CDP Runtime events (console messages, uncaught exceptions) are recorded
+let consoleTabId = null;
+let consoleTrackedSince = 0;
+// Console entries per tab (tabId -> entries, oldest first)
+const consoleLogs = new Map();
+const MAX_CONSOLE_LOG = 200;
+const MAX_CONSOLE_TEXT = 500;
+// How JavaScript dialogs (alert/confirm/prompt/beforeunload) are answered: 'accept', 'dismiss',
+// or 'ask' (left open for handleDialog or the user) - the web app sets it through setDialogPolicy
+let dialogPolicy = 'ask';
+const DIALOG_POLICIES = new Set(['accept', 'dismiss', 'ask']);
+// Tab whose CDP Page events (dialogs opening and closing) are enabled
+let dialogTabId = null;
+// Dialog open on each tab (tabId -> dialog) - it blocks every script on the page until answered
+const openDialogs = new Map();
+// Called with each dialog that opens (executeTool lists them in the running tool's result)
+const dialogListeners = new Set();
+// Tools that don't run scripts in the page, so an open dialog doesn't block them
+const DIALOG_FREE_TOOLS = new Set([
+  'handleDialog', 'setDialogPolicy', 'consoleLogs', 'networkRequests', 'wait',
+  'listTabs', 'openTab', 'switchTab', 'closeTab', 'startCapture', 'stopCapture',
+]);
+// Domain policy (domain-policy.json, loaded once)
+let domainPolicyPromise = null;
+// Which domain check each tool needs on the target tab before injecting scripts
+const TOOL_DOMAIN_ACTIONS = {
+  screenshot: 'read',
+  click: 'write',
+  type: 'write',
+  scroll: 'read',
+  scrollUntil: 'read',
+  extract: 'read',
+  runExtractor: 'read',
+  crawl: 'read',
+  highlightElement: 'read',
+  snapshot: 'read',
+  archivePage: 'read',
+  consoleLogs: 'read',
+  listFrames: 'read',
+  waitForSelector: 'read',
+  networkRequests: 'read',
+  pressKey: 'write',
+  hover: 'read',
+  selectOption: 'write',
+  check: 'write',
+  uncheck: 'write',
+  dragAndDrop: 'write',
+  handleDialog: 'write',
+};
+// CDP Input modifier bits
+const KEY_MODIFIERS = { Alt: 1, Control: 2, Meta: 4, Shift: 8 };
+// Named keys for pressKey (single characters are derived in keyDefinition)
+const KEY_DEFINITIONS = {
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  Space: { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+  Shift: { code: 'ShiftLeft', keyCode: 16 },
+  Control: { code: 'ControlLeft', keyCode: 17 },
+  Alt: { code: 'AltLeft', keyCode: 18 },
+  Meta: { code: 'MetaLeft', keyCode: 91 },
+};
+// Tab tools take tabId as their own argument (not as "act on this tab"), and so does the
+// approval preview - it must not change the selected tab before the action is approved
+const TAB_TOOLS = new Set(['listTabs', 'openTab', 'switchTab', 'closeTab', 'highlightElement']);
+// Attribute that snapshot refs are stamped on (click/type/extract resolve refs through it)
+const REF_ATTRIBUTE = 'data-manus-ref';
+// Accessibility roles the snapshot lists
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'option',
+  'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'tab',
+  'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem',
+]);
+// Cap on snapshot size (keeps the result within the model's tool budget)
+const MAX_SNAPSHOT_ELEMENTS = 150;
+// Overlay drawn by dom-marks.js for screenshot({marks: true})
+const MARKS_OVERLAY_ID = '__manus_marks_overlay__';
+// Full-page screenshots stop here (CSS pixels) - vision models reject taller images
+const MAX_FULL_PAGE_HEIGHT = 8000;
+// extract chunk size (fits MAX_CONTENT_CHARS in the web app's tool-result.ts) and chunk cap
+const EXTRACT_CHUNK_SIZE = 6000;
+const MAX_EXTRACT_CHUNKS = 40;
+// Chunks of recent extracts, for extractMore (cursorId -> { chunks, format, url }, oldest first)
+const extractCursors = new Map();
+const MAX_EXTRACT_CURSORS = 10;
+let nextCursorId = 1;
+// scrollUntil stops after this many scrolls in a row without new items
+const MAX_IDLE_SCROLLS = 2;
 
 // Get the active tab that's not the localhost web app
 async function getTargetTab() {
@@ -57,25 +165,145 @@ async function getTargetTab() {
   return null;
 }
 
+// Helper: The tab a tool acts on - the tab given as tabId (null if it's gone), else the target tab
+async function getToolTab(args) {
+  if (args?.tabId === undefined || args.tabId === null) {
+    return await getTargetTab();
+  }
+  try {
+    return await chrome.tabs.get(args.tabId);
+  } catch (e) {
+    return null;
+  }
+}
+
 // Execute tool based on name and arguments
 async function executeTool(toolName, args) {
   console.log('[Background] Executing tool:', toolName, args);
 
+  // Re-check the domain policy here - the web app's own checks can't be trusted.
+  // Checked on the requested tab before switching to it, so a blocked tab never becomes the selected one
+  const policyError = await checkToolDomain(toolName, args);
+  if (policyError) {
+    return { success: false, policyBlocked: true, error: `Blocked by domain policy: ${policyError}` };
+  }
+
+  // A tool given a tabId acts on that tab, which becomes the selected tab (live capture follows)
+  if (args?.tabId !== undefined && args.tabId !== null && !TAB_TOOLS.has(toolName)) {
+    const tabError = await switchToTab(args.tabId);
+    if (tabError) {
+      return { success: false, error: tabError };
+    }
+  }
+
+  // An open dialog blocks every script on its page - report it instead of running into the timeout
+  const openDialog = openDialogs.get(args?.tabId ?? currentTargetTabId);
+  if (openDialog && !DIALOG_FREE_TOOLS.has(toolName)) {
+    return dialogOpenResult(openDialog);
+  }
+
+  // Dialogs are only seen (and answered by the policy) with the debugger attached and Page events
+  // enabled - attach it for tools that run in the page, so a dialog they open can't block them
+  if (TOOL_DOMAIN_ACTIONS[toolName] && !DIALOG_FREE_TOOLS.has(toolName) && !TAB_TOOLS.has(toolName)) {
+    const tab = await getTargetTab();
+    try {
+      const debuggerError = tab ? await enableDialogTracking(tab) : null;
+      if (debuggerError) {
+        console.log('[Background] Dialog handling unavailable:', debuggerError);
+      }
+    } catch (pageError) {
+      console.log('[Background] Dialog handling unavailable:', pageError.message);
+    }
+  }
+
+  // Dialogs opening while the tool runs are listed in its result; one left open ends the tool early
+  const dialogs = [];
+  let resolveLeftOpen;
+  const leftOpen = new Promise(resolve => {
+    resolveLeftOpen = resolve;
+  });
+  const onDialog = (dialog) => {
+    dialogs.push({ ...dialog });
+    if (dialog.handled === null) {
+      resolveLeftOpen(dialogOpenResult(dialog));
+    }
+  };
+  dialogListeners.add(onDialog);
+  try {
+    const result = await Promise.race([runTool(toolName, args), leftOpen]);
+    return dialogs.length > 0 ? { ...result, dialogs } : result;
+  } finally {
+    dialogListeners.delete(onDialog);
+  }
+}
+
+// Run a tool's handler
+async function runTool(toolName, args) {
   switch (toolName) {
     case 'navigate':
       return await handleNavigate(args);
     case 'screenshot':
-      return await handleScreenshot();
+      return await handleScreenshot(args);
     case 'click':
       return await handleClick(args);
     case 'type':
       return await handleType(args);
     case 'scroll':
       return await handleScroll(args);
+    case 'scrollUntil':
+      return await handleScrollUntil(args);
+    case 'pressKey':
+      return await handlePressKey(args);
+    case 'hover':
+      return await handleHover(args);
+    case 'selectOption':
+      return await handleSelectOption(args);
+    case 'check':
+      return await handleSetChecked(args, true);
+    case 'uncheck':
+      return await handleSetChecked(args, false);
+    case 'dragAndDrop':
+      return await handleDragAndDrop(args);
     case 'extract':
       return await handleExtract(args);
+    case 'extractMore':
+      return await handleExtractMore(args);
     case 'wait':
       return await handleWait(args);
+    case 'waitForSelector':
+      return await handleWaitForSelector(args);
+    case 'waitForUrl':
+      return await handleWaitForUrl(args);
+    case 'waitForNetworkIdle':
+      return await handleWaitForNetworkIdle(args);
+    case 'networkRequests':
+      return await handleNetworkRequests(args);
+    case 'runExtractor':
+      return await handleRunExtractor(args);
+    case 'crawl':
+      return await handleCrawl(args);
+    case 'highlightElement':
+      return await handleHighlightElement(args);
+    case 'snapshot':
+      return await handleSnapshot();
+    case 'archivePage':
+      return await handleArchivePage(args);
+    case 'consoleLogs':
+      return await handleConsoleLogs(args);
+    case 'handleDialog':
+      return await handleHandleDialog(args);
+    case 'setDialogPolicy':
+      return handleSetDialogPolicy(args);
+    case 'listFrames':
+      return await handleListFrames();
+    case 'listTabs':
+      return await handleListTabs();
+    case 'openTab':
+      return await handleOpenTab(args);
+    case 'switchTab':
+      return await handleSwitchTab(args);
+    case 'closeTab':
+      return await handleCloseTab(args);
     case 'startCapture':
       return await handleStartCapture();
     case 'stopCapture':
@@ -116,6 +344,10 @@ async function handleNavigate({ url }) {
 
     // Wait for page to load
     await waitForTabLoad(tab.id);
+    const redirectError = await checkLoadedTab(tab.id);
+    if (redirectError) {
+      return { success: false, policyBlocked: true, error: `Blocked by domain policy: ${redirectError}` };
+    }
 
     // Get updated tab info
     const updatedTab = await chrome.tabs.get(tab.id);
@@ -124,44 +356,162 @@ async function handleNavigate({ url }) {
     // The live preview shows the page visually, and extract tool can be used if needed
 
     // Auto-start live capture after navigation if not already running
-    if (!debuggerAttached && !captureIntervalId) {
-      console.log('[Background] Auto-starting live capture after navigation');
-      handleStartCapture().then(result => {
-        if (result.success) {
-          // Notify web app that live capture has started
-          notifyWebApp({
-            type: 'CAPTURE_STARTED',
-            payload: { tabId: tab.id, url: targetUrl },
-          });
-        }
-      }).catch(e => {
-        console.error('[Background] Auto-start capture failed:', e);
+    autoStartCapture(tab.id, updatedTab.url);
+
+    // Where it ended up after redirects
+    return {
+      success: true,
+      url: updatedTab.url,
+      title: updatedTab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Capture screenshot through the debugger (never switches tabs)
+// marks: box every on-screen snapshot element, labelled with its ref (set-of-marks)
+// fullPage: the whole scrollable page; selector/ref: just that element
+async function handleScreenshot({ marks = false, fullPage = false, selector, ref, frame } = {}) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found. Navigate to a page first.' };
+    }
+    if (marks) {
+      return await captureMarkedScreenshot(tab);
+    }
+
+    const debuggerError = await ensureDebugger(tab);
+    if (debuggerError) {
+      return { success: false, error: `Screenshots need the debugger: ${debuggerError}` };
+    }
+
+    const isElement = !!(selector || ref);
+    let clip = null;
+    let truncated = false;
+    if (isElement) {
+      const target = resolveTarget(selector, ref);
+      if (target.error) {
+        return { success: false, error: target.error };
+      }
+      const box = await getElementPageBox(tab.id, target.selector, frame);
+      if (!box.success) {
+        return refNotFound(box, ref) || box;
+      }
+      clip = box.clip;
+    } else if (fullPage) {
+      const [{ result: page }] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id, frameIds: [0] },
+        func: () => ({
+          width: document.documentElement.scrollWidth,
+          height: document.documentElement.scrollHeight,
+        }),
       });
+      truncated = page.height > MAX_FULL_PAGE_HEIGHT;
+      clip = { x: 0, y: 0, width: page.width, height: Math.min(page.height, MAX_FULL_PAGE_HEIGHT) };
     }
 
+    // Full pages are large - JPEG keeps them small enough to send to the model
+    const format = clip && !isElement ? 'jpeg' : 'png';
+    const capture = await chrome.debugger.sendCommand({ tabId: tab.id }, 'Page.captureScreenshot', {
+      format,
+      ...(format === 'jpeg' && { quality: 80 }),
+      ...(clip && { clip: { ...clip, scale: 1 }, captureBeyondViewport: true }),
+    });
+
     return {
       success: true,
-      url: targetUrl,
-      title: updatedTab.title,
+      screenshot: `data:image/${format};base64,` + capture.data,
+      fullPage: !!clip && !isElement,
+      truncated,
+      url: tab.url,
+      title: tab.title,
     };
   } catch (error) {
     return { success: false, error: error.message };
   }
 }
 
-// Capture screenshot
-async function handleScreenshot() {
+// Helper: Snapshot the page, draw its refs over the elements and capture through the debugger
+// Returns the image with a ref -> CSS selector map and the snapshot lines of the marked elements
+async function captureMarkedScreenshot(tab) {
+  const debuggerError = await ensureDebugger(tab);
+  if (debuggerError) {
+    return { success: false, error: `Marked screenshots need the debugger: ${debuggerError}` };
+  }
+
+  // Tags the interactive elements with refs
+  const snapshot = await handleSnapshot();
+  if (!snapshot.success) {
+    return snapshot;
+  }
+
+  const drawn = await executeInFrames(tab.id, undefined, (refAttribute, overlayId) => {
+    return { success: true, ...globalThis.__manusDrawMarks(refAttribute, overlayId) };
+  }, [REF_ATTRIBUTE, MARKS_OVERLAY_ID], ['dom-marks.js']);
+  if (!drawn?.success) {
+    return { success: false, error: 'Could not draw the marks' };
+  }
+
+  let capture;
+  try {
+    // Let the overlay paint before capturing
+    await new Promise(resolve => setTimeout(resolve, 100));
+    capture = await chrome.debugger.sendCommand({ tabId: tab.id }, 'Page.captureScreenshot', { format: 'jpeg', quality: 80 });
+  } finally {
+    await chrome.scripting.executeScript({
+      target: { tabId: tab.id, frameIds: [0] },
+      func: (overlayId) => globalThis.__manusClearMarks?.(overlayId),
+      args: [MARKS_OVERLAY_ID],
+    });
+  }
+
+  // Off-screen elements have no box - leave them out of the listing too
+  const content = snapshot.content
+    .split('\n')
+    .filter(line => line.slice(1, line.indexOf(']')) in drawn.marks)
+    .join('\n');
+
+  return {
+    success: true,
+    screenshot: 'data:image/jpeg;base64,' + capture.data,
+    marks: drawn.marks,
+    content,
+    url: tab.url,
+    title: tab.title,
+  };
+}
+
+// Save the page as evidence: a PDF print or an MHTML snapshot (page plus its resources)
+// The file comes back as a data URL - the web app stores it with the session
+async function handleArchivePage({ format = 'pdf' } = {}) {
   try {
     const tab = await getTargetTab();
     if (!tab) {
       return { success: false, error: 'No target tab found. Navigate to a page first.' };
     }
 
-    const screenshot = await captureScreenshot(tab.id);
+    const debuggerError = await ensureDebugger(tab);
+    if (debuggerError) {
+      return { success: false, error: `Archiving needs the debugger: ${debuggerError}` };
+    }
+
+    const target = { tabId: tab.id };
+    let file;
+    if (format === 'mhtml') {
+      const { data } = await chrome.debugger.sendCommand(target, 'Page.captureSnapshot', { format: 'mhtml' });
+      file = 'data:multipart/related;base64,' + encodeBase64Utf8(data);
+    } else {
+      const { data } = await chrome.debugger.sendCommand(target, 'Page.printToPDF', { printBackground: true });
+      file = 'data:application/pdf;base64,' + data;
+    }
 
     return {
       success: true,
-      screenshot,
+      format,
+      file,
+      capturedAt: new Date().toISOString(),
       url: tab.url,
       title: tab.title,
     };
@@ -171,32 +521,34 @@ async function handleScreenshot() {
 }
 
 // Click on element
-async function handleClick({ selector }) {
+async function handleClick({ selector, ref, mode = 'synthetic', frame }) {
   try {
     const tab = await getTargetTab();
     if (!tab) {
       return { success: false, error: 'No target tab found' };
     }
 
-    if (!selector) {
-      return { success: false, error: 'Selector is required for click action' };
+    const target = resolveTarget(selector, ref);
+    if (target.error) {
+      return { success: false, error: target.error };
     }
 
-    const result = await chrome.scripting.executeScript({
-      target: { tabId: tab.id },
-      func: (sel) => {
-        const element = document.querySelector(sel);
+    let clickResult;
+    if (mode === 'trusted') {
+      clickResult = await trustedClick(tab, target.selector, frame);
+    } else {
+      clickResult = await executeInFrames(tab.id, frame, (sel) => {
+        const element = __manusQuery(sel);
         if (!element) {
           return { success: false, error: `Element not found: ${sel}` };
         }
         element.click();
         return { success: true };
-      },
-      args: [selector],
-    });
+      }, [target.selector]);
+    }
 
-    if (!result[0]?.result?.success) {
-      return result[0]?.result || { success: false, error: 'Click failed' };
+    if (!clickResult?.success) {
+      return refNotFound(clickResult, ref) || { success: false, error: 'Click failed' };
     }
 
     // Wait a moment for any reactions
@@ -209,6 +561,8 @@ async function handleClick({ selector }) {
       success: true,
       screenshot,
       url: tab.url,
+      mode,
+      frameId: clickResult.frameId,
     };
   } catch (error) {
     return { success: false, error: error.message };
@@ -216,24 +570,27 @@ async function handleClick({ selector }) {
 }
 
 // Type text into element
-async function handleType({ selector, text }) {
+async function handleType({ selector, ref, text, mode = 'synthetic', frame }) {
   try {
     const tab = await getTargetTab();
     if (!tab) {
       return { success: false, error: 'No target tab found' };
     }
 
-    if (!selector) {
-      return { success: false, error: 'Selector is required for type action' };
+    const target = resolveTarget(selector, ref);
+    if (target.error) {
+      return { success: false, error: target.error };
     }
 
     // Ensure text is a string (convert undefined/null to empty string)
     const safeText = text ?? '';
 
-    const result = await chrome.scripting.executeScript({
-      target: { tabId: tab.id },
-      func: (sel, txt) => {
-        const element = document.querySelector(sel);
+    let typeResult;
+    if (mode === 'trusted') {
+      typeResult = await trustedType(tab, target.selector, safeText, frame);
+    } else {
+      typeResult = await executeInFrames(tab.id, frame, (sel, txt) => {
+        const element = __manusQuery(sel);
         if (!element) {
           return { success: false, error: `Element not found: ${sel}` };
         }
@@ -254,12 +611,11 @@ async function handleType({ selector, text }) {
         element.dispatchEvent(new Event('change', { bubbles: true }));
 
         return { success: true };
-      },
-      args: [selector, safeText],
-    });
+      }, [target.selector, safeText]);
+    }
 
-    if (!result[0]?.result?.success) {
-      return result[0]?.result || { success: false, error: 'Type failed' };
+    if (!typeResult?.success) {
+      return refNotFound(typeResult, ref) || { success: false, error: 'Type failed' };
     }
 
     // Wait a moment
@@ -272,243 +628,1347 @@ async function handleType({ selector, text }) {
       success: true,
       screenshot,
       url: tab.url,
+      mode,
+      frameId: typeResult.frameId,
     };
   } catch (error) {
     return { success: false, error: error.message };
   }
 }
 
-// Scroll the page
-async function handleScroll({ direction, amount }) {
+// Press a key or chord ("Enter", "Shift+Tab", "Control+A") - focuses the element first if one is given
+async function handlePressKey({ key, selector, ref, frame }) {
   try {
     const tab = await getTargetTab();
     if (!tab) {
       return { success: false, error: 'No target tab found' };
     }
 
-    // Provide defaults for serialization safety
-    const safeDirection = direction || 'down';
-    const safeAmount = amount ?? 300;
+    const chord = parseKeyChord(key || '');
+    if (chord.error) {
+      return { success: false, error: chord.error };
+    }
 
-    await chrome.scripting.executeScript({
-      target: { tabId: tab.id },
-      func: (dir, amt) => {
-        const scrollAmount = dir === 'down' ? amt : -amt;
-        window.scrollBy({ top: scrollAmount, behavior: 'smooth' });
-      },
-      args: [safeDirection, safeAmount],
-    });
+    if (selector || ref) {
+      const target = resolveTarget(selector, ref);
+      if (target.error) {
+        return { success: false, error: target.error };
+      }
+      const focused = await executeInFrames(tab.id, frame, (sel) => {
+        const element = __manusQuery(sel);
+        if (!element) {
+          return { success: false, error: `Element not found: ${sel}` };
+        }
+        element.focus();
+        return { success: true };
+      }, [target.selector]);
+      if (!focused?.success) {
+        return refNotFound(focused, ref) || { success: false, error: 'Focus failed' };
+      }
+    }
 
-    // Wait for scroll to complete
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // Key events need the debugger - synthetic ones don't trigger default actions (submit, tab focus)
+    const debuggerError = await ensureDebugger(tab);
+    if (debuggerError) {
+      return { success: false, error: `pressKey needs the debugger: ${debuggerError}` };
+    }
+    await dispatchKeyChord(tab.id, chord);
 
-    // Skip screenshot if live capture is running (avoids tab switching)
-    const screenshot = debuggerAttached ? null : await captureScreenshot(tab.id);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const updatedTab = await chrome.tabs.get(tab.id);
 
     return {
       success: true,
-      screenshot,
-      url: tab.url,
+      key,
+      url: updatedTab.url,
     };
   } catch (error) {
     return { success: false, error: error.message };
   }
 }
 
-// Extract content from page
-async function handleExtract({ selector, type = 'text' }) {
+// Move the mouse over an element (opens hover menus)
+async function handleHover({ selector, ref, frame }) {
   try {
     const tab = await getTargetTab();
     if (!tab) {
       return { success: false, error: 'No target tab found' };
     }
 
-    // Convert undefined to null for serialization (undefined is not serializable in MV3)
-    const safeSelector = selector === undefined ? null : selector;
-    const safeType = type === undefined ? 'text' : type;
-
-    const result = await chrome.scripting.executeScript({
-      target: { tabId: tab.id },
-      func: (sel, extractType) => {
-        let element = sel ? document.querySelector(sel) : document.documentElement;
-        if (!element) {
-          return { success: false, error: `Element not found: ${sel}` };
-        }
-
-        const content = extractType === 'html'
-          ? element.outerHTML
-          : element.innerText;
-
-        return { success: true, data: content };
-      },
-      args: [safeSelector, safeType],
-    });
+    const target = resolveTarget(selector, ref);
+    if (target.error) {
+      return { success: false, error: target.error };
+    }
 
-    const extractResult = result[0]?.result;
-    if (!extractResult?.success) {
-      return extractResult || { success: false, error: 'Extract failed' };
+    // CSS :hover only reacts to real mouse movement
+    const debuggerError = await ensureDebugger(tab);
+    if (debuggerError) {
+      return { success: false, error: `Hover needs the debugger: ${debuggerError}` };
     }
 
-    // Limit content size to avoid token limit issues (max ~50KB)
-    const MAX_CONTENT_SIZE = 50000;
-    let content = extractResult.data;
-    let truncated = false;
-    if (content && content.length > MAX_CONTENT_SIZE) {
-      content = content.substring(0, MAX_CONTENT_SIZE);
-      truncated = true;
+    const point = await getElementCenter(tab.id, target.selector, frame);
+    if (!point.success) {
+      return refNotFound(point, ref);
     }
+    await chrome.debugger.sendCommand({ tabId: tab.id }, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x: point.x, y: point.y });
+
+    // Let menus open
+    await new Promise(resolve => setTimeout(resolve, 300));
 
     return {
       success: true,
-      data: content,
-      truncated,
-      originalLength: extractResult.data?.length || 0,
+      frameId: point.frameId,
+      coveredBy: point.coveredBy,
       url: tab.url,
-      title: tab.title,
     };
   } catch (error) {
     return { success: false, error: error.message };
   }
 }
 
-// Wait for specified seconds
-async function handleWait({ seconds }) {
+// Select options of a native <select> by value or visible label
+async function handleSelectOption({ selector, ref, values, frame }) {
   try {
-    const safeSeconds = seconds ?? 1;
-    await new Promise(resolve => setTimeout(resolve, safeSeconds * 1000));
-
-    // Skip screenshot if live capture is running (avoids tab switching)
     const tab = await getTargetTab();
-    let screenshot = null;
-    if (tab && !debuggerAttached) {
-      screenshot = await captureScreenshot(tab.id);
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const target = resolveTarget(selector, ref);
+    if (target.error) {
+      return { success: false, error: target.error };
+    }
+    const wanted = Array.isArray(values) ? values : [values];
+
+    const result = await executeInFrames(tab.id, frame, (sel, wantedValues) => {
+      const element = __manusQuery(sel);
+      if (!element) {
+        return { success: false, error: `Element not found: ${sel}` };
+      }
+      if (element.tagName !== 'SELECT') {
+        return { success: false, error: `Element is a <${element.tagName.toLowerCase()}>, not a <select>` };
+      }
+
+      const options = Array.from(element.options);
+      const matches = [];
+      for (const wantedValue of wantedValues) {
+        const normalized = String(wantedValue).trim().toLowerCase();
+        const option = options.find(o => o.value === wantedValue)
+          || options.find(o => o.label.trim().toLowerCase() === normalized);
+        if (!option) {
+          return {
+            success: false,
+            error: `No option "${wantedValue}". Options: ${options.map(o => o.label.trim()).slice(0, 20).join(', ')}`,
+          };
+        }
+        matches.push(option);
+      }
+      if (matches.length > 1 && !element.multiple) {
+        return { success: false, error: 'This <select> allows only one option' };
+      }
+
+      element.focus();
+      for (const option of options) {
+        option.selected = matches.includes(option);
+      }
+      element.dispatchEvent(new Event('input', { bubbles: true }));
+      element.dispatchEvent(new Event('change', { bubbles: true }));
+
+      return { success: true, selected: matches.map(o => ({ value: o.value, label: o.label.trim() })) };
+    }, [target.selector, wanted]);
+
+    if (!result?.success) {
+      return refNotFound(result, ref) || { success: false, error: 'Select failed' };
     }
 
     return {
       success: true,
-      screenshot,
-      message: `Waited ${safeSeconds} seconds`,
+      selected: result.selected,
+      url: tab.url,
     };
   } catch (error) {
     return { success: false, error: error.message };
   }
 }
 
-// Start live capture using Chrome Debugger API
-async function handleStartCapture() {
+// Check or uncheck a checkbox, radio or ARIA checkbox/switch (clicks only if the state differs)
+async function handleSetChecked({ selector, ref, frame }, checked) {
   try {
-    // Stop any existing capture first
-    if (debuggerAttached || captureIntervalId) {
-      await handleStopCapture();
-    }
-
-    // First, ensure we have the web app tab
-    const tabs = await chrome.tabs.query({ url: 'http://localhost:3000/*' });
-    if (tabs.length === 0) {
-      return { success: false, error: 'Web app tab not found' };
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
     }
-    webAppTabId = tabs[0].id;
 
-    // Get the target tab to capture
-    const targetTab = await getTargetTab();
-    if (!targetTab) {
-      return { success: false, error: 'No target tab found. Navigate to a page first.' };
+    const target = resolveTarget(selector, ref);
+    if (target.error) {
+      return { success: false, error: target.error };
     }
 
-    console.log('[Background] Starting debugger capture for tab:', targetTab.id, targetTab.url);
-
-    // Attach debugger to target tab
-    try {
-      await chrome.debugger.attach({ tabId: targetTab.id }, '1.3');
-      debuggerAttached = true;
-      currentTargetTabId = targetTab.id;
-      console.log('[Background] Debugger attached successfully');
-    } catch (attachError) {
-      console.error('[Background] Debugger attach error:', attachError);
-      // Check if DevTools is open
-      if (attachError.message && attachError.message.includes('Another debugger')) {
-        return {
-          success: false,
-          error: 'Cannot attach debugger: DevTools may be open on the target tab. Please close DevTools and try again.',
-        };
+    const result = await executeInFrames(tab.id, frame, (sel, wanted) => {
+      const element = __manusQuery(sel);
+      if (!element) {
+        return { success: false, error: `Element not found: ${sel}` };
       }
-      return { success: false, error: attachError.message };
-    }
 
-    // Start periodic screenshot capture
-    captureIntervalId = setInterval(async () => {
-      if (!debuggerAttached || !currentTargetTabId) {
-        console.log('[Background] Capture stopped: debugger not attached');
-        handleStopCapture();
-        return;
+      const isNative = element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio');
+      const readState = () => (isNative ? element.checked : element.getAttribute('aria-checked') === 'true');
+      if (!isNative && !element.hasAttribute('aria-checked')) {
+        return { success: false, error: 'Element is not a checkbox, radio or ARIA checkbox' };
+      }
+      if (isNative && element.type === 'radio' && !wanted) {
+        return { success: false, error: 'A radio button can\'t be unchecked - check another option instead' };
       }
 
-      try {
-        const result = await chrome.debugger.sendCommand(
-          { tabId: currentTargetTabId },
-          'Page.captureScreenshot',
-          { format: 'jpeg', quality: 70 }
-        );
-
-        // Send screenshot to web app
-        notifyWebApp({
-          type: 'LIVE_FRAME',
-          payload: {
-            screenshot: 'data:image/jpeg;base64,' + result.data,
-            timestamp: Date.now(),
-          },
-        });
-      } catch (captureError) {
-        console.error('[Background] Capture error:', captureError);
-        // If capture fails, stop the interval
-        handleStopCapture();
-        notifyWebApp({
-          type: 'CAPTURE_STOPPED',
-          payload: { reason: captureError.message },
-        });
+      // click() fires the same events as a user click, so frameworks see the change
+      if (readState() !== wanted) {
+        element.click();
       }
-    }, CAPTURE_RATE);
+      const state = readState();
+      return state === wanted
+        ? { success: true, checked: state }
+        : { success: false, error: `Element is still ${state ? 'checked' : 'unchecked'} after clicking` };
+    }, [target.selector, checked]);
+
+    if (!result?.success) {
+      return refNotFound(result, ref) || { success: false, error: 'Check failed' };
+    }
 
     return {
       success: true,
-      tabId: targetTab.id,
-      url: targetTab.url,
-      title: targetTab.title,
-      mode: 'debugger',
+      checked: result.checked,
+      url: tab.url,
     };
   } catch (error) {
-    console.error('[Background] Start capture error:', error);
     return { success: false, error: error.message };
   }
 }
 
-// Stop live capture
-async function handleStopCapture() {
+// Drag one element onto another
+// Native draggables get HTML5 drag events; everything else a real mouse press-move-release
+async function handleDragAndDrop({ source, sourceRef, target, targetRef, frame }) {
   try {
-    // Stop capture interval
-    if (captureIntervalId) {
-      clearInterval(captureIntervalId);
-      captureIntervalId = null;
-      console.log('[Background] Capture interval cleared');
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
     }
 
-    // Detach debugger
-    if (debuggerAttached && currentTargetTabId) {
-      try {
-        await chrome.debugger.detach({ tabId: currentTargetTabId });
-        console.log('[Background] Debugger detached');
-      } catch (e) {
-        // Ignore errors if already detached
-        console.log('[Background] Debugger detach error (may already be detached):', e.message);
+    const from = resolveTarget(source, sourceRef);
+    const to = resolveTarget(target, targetRef);
+    if (from.error || to.error) {
+      return { success: false, error: `Drag ${from.error ? 'source' : 'target'}: ${from.error || to.error}` };
+    }
+
+    const html5 = await executeInFrames(tab.id, frame, (sourceSel, targetSel) => {
+      const sourceEl = __manusQuery(sourceSel);
+      const targetEl = __manusQuery(targetSel);
+      if (!sourceEl || !targetEl) {
+        return { success: false, error: `Element not found: ${!sourceEl ? sourceSel : targetSel}` };
       }
-      debuggerAttached = false;
+      if (!sourceEl.draggable) {
+        return { success: true, native: false };
+      }
+
+      const dataTransfer = new DataTransfer();
+      const fire = (el, type) => el.dispatchEvent(new DragEvent(type, { bubbles: true, cancelable: true, dataTransfer }));
+      fire(sourceEl, 'dragstart');
+      fire(targetEl, 'dragenter');
+      fire(targetEl, 'dragover');
+      fire(targetEl, 'drop');
+      fire(sourceEl, 'dragend');
+      return { success: true, native: true };
+    }, [from.selector, to.selector]);
+
+    if (!html5?.success) {
+      return html5 || { success: false, error: 'Drag failed' };
     }
 
-    console.log('[Background] Live capture stopped');
+    if (!html5.native) {
+      const debuggerError = await ensureDebugger(tab);
+      if (debuggerError) {
+        return { success: false, error: `Drag needs the debugger: ${debuggerError}` };
+      }
 
-    return { success: true };
-  } catch (error) {
-    return { success: false, error: error.message };
+      // Both elements were found in this frame
+      const start = await getElementCenter(tab.id, from.selector, html5.frameId);
+      if (!start.success) {
+        return start;
+      }
+      const debuggee = { tabId: tab.id };
+      await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x: start.x, y: start.y });
+      await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', { type: 'mousePressed', x: start.x, y: start.y, button: 'left', clickCount: 1 });
+
+      // Locate the target after pressing (scrolling it into view is part of the drag)
+      const end = await getElementCenter(tab.id, to.selector, html5.frameId);
+      const endPoint = end.success ? end : start;
+
+      // Move in steps - drag libraries wait for a few pixels of movement before starting
+      const STEPS = 10;
+      for (let i = 1; i <= STEPS; i++) {
+        await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', {
+          type: 'mouseMoved',
+          x: start.x + (endPoint.x - start.x) * (i / STEPS),
+          y: start.y + (endPoint.y - start.y) * (i / STEPS),
+          button: 'left',
+          buttons: 1,
+        });
+      }
+      await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x: endPoint.x, y: endPoint.y, button: 'left', clickCount: 1 });
+
+      if (!end.success) {
+        return end;
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const screenshot = debuggerAttached ? null : await captureScreenshot(tab.id);
+
+    return {
+      success: true,
+      method: html5.native ? 'html5' : 'mouse',
+      screenshot,
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Scroll the page
+async function handleScroll({ direction, amount, frame }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    // Provide defaults for serialization safety
+    const safeDirection = direction || 'down';
+    const safeAmount = amount ?? 300;
+
+    await executeInFrames(tab.id, frame, (dir, amt) => {
+      const scrollAmount = dir === 'down' ? amt : -amt;
+      window.scrollBy({ top: scrollAmount, behavior: 'smooth' });
+      return { success: true };
+    }, [safeDirection, safeAmount]);
+
+    // Wait for scroll to complete
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    // Skip screenshot if live capture is running (avoids tab switching)
+    const screenshot = debuggerAttached ? null : await captureScreenshot(tab.id);
+
+    return {
+      success: true,
+      screenshot,
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Harvest an infinite-scroll feed: collect items, scroll past the last one, repeat
+// until no new items load, maxItems is reached or the timeout passes
+async function handleScrollUntil({ itemSelector, fields, maxItems = 100, timeoutMs = 30000, settleMs = 800, frame }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    // Deduplicated by content - virtualized feeds drop items from the DOM as they scroll
+    const items = new Map();
+    const startTime = Date.now();
+    let scrollCount = 0;
+    let idleScrolls = 0;
+    let frameId = null;
+    let stoppedReason = null;
+
+    while (!stoppedReason) {
+      const round = await executeInFrames(tab.id, frameId ?? frame, (itemSel, fieldSels) => {
+        const MAX_TEXT = 300;
+        const found = __manusQueryAll(itemSel);
+        const rows = found.map(item => {
+          if (!fieldSels) {
+            const link = item.matches('a[href]') ? item : item.querySelector('a[href]');
+            return {
+              text: (item.innerText || item.textContent || '').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT),
+              href: link ? link.href : '',
+            };
+          }
+          const row = {};
+          for (const [field, sel] of Object.entries(fieldSels)) {
+            const el = __manusQuery(sel, item);
+            row[field] = el ? (el.textContent || '').trim() : '';
+          }
+          return row;
+        });
+        // success = items found, so frame "all" picks the frame that has them
+        return { success: found.length > 0, rows };
+      }, [itemSelector, fields ?? null]);
+
+      if (!round) {
+        return { success: false, error: 'Could not run in the page' };
+      }
+      // Stay in the frame that has the feed
+      if (round.success && frameId === null) {
+        frameId = round.frameId;
+      }
+
+      let added = 0;
+      for (const row of round.rows || []) {
+        const key = JSON.stringify(row);
+        if (!items.has(key)) {
+          items.set(key, row);
+          added++;
+        }
+      }
+      idleScrolls = added > 0 ? 0 : idleScrolls + 1;
+
+      if (items.size >= maxItems) {
+        stoppedReason = 'max-items';
+      } else if (idleScrolls > MAX_IDLE_SCROLLS) {
+        stoppedReason = 'no-new-items';
+      } else if (Date.now() - startTime >= timeoutMs) {
+        stoppedReason = 'timeout';
+      } else {
+        // Bring the last item to the bottom edge (works for scrollable containers too), then page further
+        await executeInFrames(tab.id, frameId ?? frame, (itemSel) => {
+          const found = __manusQueryAll(itemSel);
+          found[found.length - 1]?.scrollIntoView({ block: 'end', behavior: 'instant' });
+          window.scrollBy({ top: window.innerHeight, behavior: 'instant' });
+          return { success: true };
+        }, [itemSelector]);
+        scrollCount++;
+        await new Promise(resolve => setTimeout(resolve, settleMs));
+      }
+    }
+
+    const updatedTab = await chrome.tabs.get(tab.id);
+    return {
+      success: true,
+      data: Array.from(items.values()).slice(0, maxItems),
+      itemCount: Math.min(items.size, maxItems),
+      scrollCount,
+      stoppedReason,
+      elapsedMs: Date.now() - startTime,
+      frameId,
+      url: updatedTab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Extract content from page
+async function handleExtract({ selector, ref, type = 'text', frame }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    // Convert undefined to null for serialization (undefined is not serializable in MV3)
+    const safeSelector = ref ? resolveTarget(selector, ref).selector : (selector ?? null);
+    if (ref && !safeSelector) {
+      return { success: false, error: `Invalid ref: ${ref}` };
+    }
+    const safeType = type === undefined ? 'text' : type;
+
+    // Content is split into chunks on element boundaries (dom-chunks.js)
+    const extractResult = await executeInFrames(tab.id, frame, (sel, extractType, chunkSize) => {
+      let element = sel ? __manusQuery(sel) : document.documentElement;
+      if (!element) {
+        return { success: false, error: `Element not found: ${sel}` };
+      }
+
+      // Whole-page markdown extracts are narrowed to the main content region
+      const wholePage = element === document.documentElement || element === document.body;
+      const { chunks, length, region } = __manusChunks(element, extractType, chunkSize, { mainContent: wholePage });
+      return { success: true, chunks, length, region };
+    }, [safeSelector, safeType, EXTRACT_CHUNK_SIZE], ['dom-markdown.js', 'dom-chunks.js']);
+
+    if (!extractResult?.success) {
+      return refNotFound(extractResult, ref) || { success: false, error: 'Extract failed' };
+    }
+
+    // The first chunk now, the rest through extractMore({cursor})
+    const chunks = extractResult.chunks.slice(0, MAX_EXTRACT_CHUNKS);
+    const cursorId = storeExtractChunks(chunks, { format: safeType, url: tab.url });
+
+    return {
+      success: true,
+      data: chunks[0] || '',
+      ...chunkPosition(cursorId, 0, chunks.length),
+      truncated: extractResult.chunks.length > MAX_EXTRACT_CHUNKS,
+      originalLength: extractResult.length,
+      format: safeType,
+      region: extractResult.region,
+      frameId: extractResult.frameId,
+      url: tab.url,
+      title: tab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Return the next chunk of an earlier extract (cursor from its result)
+async function handleExtractMore({ cursor }) {
+  const [cursorId, index] = String(cursor || '').split(':');
+  const stored = extractCursors.get(cursorId);
+  const chunkIndex = Number(index);
+  if (!stored || !Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= stored.chunks.length) {
+    return { success: false, error: `Unknown or expired cursor: ${cursor} - call extract again` };
+  }
+
+  return {
+    success: true,
+    data: stored.chunks[chunkIndex],
+    ...chunkPosition(cursorId, chunkIndex, stored.chunks.length),
+    format: stored.format,
+    url: stored.url,
+  };
+}
+
+// Run saved extractor selectors (container + field selectors) on the page
+async function handleRunExtractor({ container, fields, frame }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    if (!container || !fields) {
+      return { success: false, error: 'Container and field selectors are required' };
+    }
+
+    const runResult = await runSelectors(tab.id, container, fields, frame);
+    if (!runResult?.success) {
+      return runResult || { success: false, error: 'Extractor run failed' };
+    }
+
+    return {
+      success: true,
+      data: runResult.data,
+      url: tab.url,
+      title: tab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Crawl paginated pages: run extractor selectors on each page, then follow
+// the next link (nextSelector) or the next URL from urlTemplate ({page})
+async function handleCrawl({ container, fields, nextSelector, urlTemplate, startPage = 1, maxPages = 5, delayMs = 1000, progressId, frame }) {
+  try {
+    let tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    if (!container || !fields) {
+      return { success: false, error: 'Container and field selectors are required' };
+    }
+    if (!nextSelector && !urlTemplate) {
+      return { success: false, error: 'Either nextSelector or urlTemplate is required' };
+    }
+
+    const rows = [];
+    const seen = new Set();
+    const pageUrls = [];
+    let duplicates = 0;
+    let stoppedReason = 'maxPages';
+
+    for (let i = 0; i < maxPages; i++) {
+      // Load the page (the first page of a nextSelector crawl is the current one)
+      if (urlTemplate) {
+        const pageUrl = urlTemplate.replace('{page}', String(startPage + i));
+        const policyError = await checkDomain(pageUrl, 'navigate');
+        if (policyError) {
+          stoppedReason = policyError;
+          break;
+        }
+        await chrome.tabs.update(tab.id, { url: pageUrl });
+        await waitForTabLoad(tab.id);
+        const redirectError = await checkLoadedTab(tab.id);
+        if (redirectError) {
+          stoppedReason = redirectError;
+          break;
+        }
+      }
+      tab = await chrome.tabs.get(tab.id);
+      pageUrls.push(tab.url);
+
+      const pageResult = await runSelectors(tab.id, container, fields, frame);
+      if (!pageResult?.success) {
+        stoppedReason = pageResult?.error || 'Extraction failed';
+        break;
+      }
+
+      let newRows = 0;
+      for (const row of pageResult.data) {
+        const key = JSON.stringify(row);
+        if (seen.has(key)) {
+          duplicates++;
+          continue;
+        }
+        seen.add(key);
+        rows.push(row);
+        newRows++;
+      }
+
+      notifyWebApp({
+        type: 'CRAWL_PROGRESS',
+        payload: { progressId, page: i + 1, maxPages, url: tab.url, pageRows: newRows, rows, done: false },
+      });
+
+      // Nothing new (empty page or pagination loop) - stop
+      if (newRows === 0) {
+        stoppedReason = 'noNewRows';
+        break;
+      }
+
+      if (i === maxPages - 1) break;
+
+      if (nextSelector) {
+        const nextResult = await executeInFrames(tab.id, frame, (sel) => {
+          const link = __manusQuery(sel);
+          return { success: !!link?.href, href: link?.href || null };
+        }, [nextSelector]);
+        const nextUrl = nextResult?.href;
+        if (!nextUrl) {
+          stoppedReason = 'noNextLink';
+          break;
+        }
+        const policyError = await checkDomain(nextUrl, 'navigate');
+        if (policyError) {
+          stoppedReason = policyError;
+          break;
+        }
+        await chrome.tabs.update(tab.id, { url: nextUrl });
+        await waitForTabLoad(tab.id);
+        const redirectError = await checkLoadedTab(tab.id);
+        if (redirectError) {
+          stoppedReason = redirectError;
+          break;
+        }
+      }
+
+      // Be polite between pages
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    notifyWebApp({
+      type: 'CRAWL_PROGRESS',
+      payload: { progressId, page: pageUrls.length, maxPages, url: tab.url, pageRows: 0, rows, done: true },
+    });
+
+    return {
+      success: true,
+      data: rows,
+      pages: pageUrls.length,
+      pageUrls,
+      duplicatesRemoved: duplicates,
+      stoppedReason,
+      url: tab.url,
+      title: tab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Screenshot the target of a pending action with the element outlined (approval preview)
+// tabId: the tab the pending action runs on (it stays unselected until the action runs)
+async function handleHighlightElement({ selector, ref, frame, tabId }) {
+  const HIGHLIGHT_ID = '__manus_approval_highlight__';
+
+  try {
+    const tab = await getToolTab({ tabId });
+    if (!tab) {
+      return { success: false, error: tabId !== undefined && tabId !== null ? `Tab ${tabId} not found` : 'No target tab found' };
+    }
+
+    let highlighted = null;
+    const target = resolveTarget(selector, ref);
+    if (target.selector) {
+      highlighted = await executeInFrames(tab.id, frame, (sel, highlightId) => {
+        const element = __manusQuery(sel);
+        if (!element) return { success: false };
+
+        element.scrollIntoView({ block: 'center', inline: 'center' });
+        const rect = element.getBoundingClientRect();
+        const overlay = document.createElement('div');
+        overlay.id = highlightId;
+        Object.assign(overlay.style, {
+          position: 'fixed',
+          left: `${rect.left - 4}px`,
+          top: `${rect.top - 4}px`,
+          width: `${rect.width + 8}px`,
+          height: `${rect.height + 8}px`,
+          border: '3px solid #f43f5e',
+          borderRadius: '6px',
+          background: 'rgba(244, 63, 94, 0.12)',
+          zIndex: '2147483647',
+          pointerEvents: 'none',
+        });
+        document.documentElement.appendChild(overlay);
+        return { success: true };
+      }, [target.selector, HIGHLIGHT_ID]);
+    }
+    const found = !!highlighted?.success;
+
+    // Let the overlay paint before capturing
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // Live capture already has the debugger attached - capture through it (no tab switching)
+    let screenshot = null;
+    if (debuggerAttached && currentTargetTabId === tab.id) {
+      const capture = await chrome.debugger.sendCommand({ tabId: tab.id }, 'Page.captureScreenshot', { format: 'png' });
+      screenshot = 'data:image/png;base64,' + capture.data;
+    } else {
+      screenshot = await captureScreenshot(tab.id);
+    }
+
+    if (found) {
+      await chrome.scripting.executeScript({
+        target: { tabId: tab.id, frameIds: [highlighted.frameId] },
+        func: (highlightId) => document.getElementById(highlightId)?.remove(),
+        args: [HIGHLIGHT_ID],
+      });
+    }
+
+    return {
+      success: true,
+      found,
+      screenshot,
+      url: tab.url,
+      title: tab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Snapshot the page's interactive elements from the accessibility tree
+// Each element gets a ref (stamped on the element) that click/type/extract accept instead of a selector
+async function handleSnapshot() {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found. Navigate to a page first.' };
+    }
+
+    // The accessibility tree comes from CDP
+    const debuggerError = await ensureDebugger(tab);
+    if (debuggerError) {
+      return { success: false, error: `Snapshot needs the debugger: ${debuggerError}` };
+    }
+
+    const target = { tabId: tab.id };
+    const { nodes } = await chrome.debugger.sendCommand(target, 'Accessibility.getFullAXTree', {});
+
+    const interactive = nodes.filter(node =>
+      !node.ignored && node.backendDOMNodeId && INTERACTIVE_ROLES.has(node.role?.value)
+    );
+    const elements = interactive.slice(0, MAX_SNAPSHOT_ELEMENTS);
+
+    // Backend node ids are stable for the element's lifetime, so refs survive re-snapshots
+    await chrome.debugger.sendCommand(target, 'DOM.getDocument', { depth: 0 });
+    const { nodeIds } = await chrome.debugger.sendCommand(target, 'DOM.pushNodesByBackendIdsToFrontend', {
+      backendNodeIds: elements.map(node => node.backendDOMNodeId),
+    });
+
+    const lines = [];
+    for (let i = 0; i < elements.length; i++) {
+      // 0 = node not in the main document (e.g. inside an iframe)
+      if (!nodeIds[i]) continue;
+
+      const node = elements[i];
+      const ref = `e${node.backendDOMNodeId}`;
+      await chrome.debugger.sendCommand(target, 'DOM.setAttributeValue', {
+        nodeId: nodeIds[i],
+        name: REF_ATTRIBUTE,
+        value: ref,
+      });
+      lines.push(formatSnapshotLine(ref, node));
+    }
+
+    return {
+      success: true,
+      content: lines.join('\n'),
+      elements: lines.length,
+      truncated: interactive.length > elements.length,
+      totalElements: interactive.length,
+      url: tab.url,
+      title: tab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// List the frames of the target tab (frameId for the frame argument of DOM tools)
+async function handleListFrames() {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const results = await chrome.scripting.executeScript({
+      target: { tabId: tab.id, allFrames: true },
+      func: () => ({
+        url: location.href,
+        title: document.title,
+        isTop: window === window.top,
+      }),
+    });
+
+    return {
+      success: true,
+      frames: results.filter(r => r.result).map(r => ({ frameId: r.frameId, ...r.result })),
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// List open tabs the agent can work with
+async function handleListTabs() {
+  try {
+    const tabs = await chrome.tabs.query({});
+    const targets = tabs.filter(tab =>
+      tab.url && !tab.url.startsWith('http://localhost:3000') && !tab.url.startsWith('chrome://')
+    );
+
+    return {
+      success: true,
+      tabs: targets.map(tab => ({
+        tabId: tab.id,
+        title: tab.title,
+        url: tab.url,
+        selected: tab.id === currentTargetTabId,
+      })),
+      selectedTabId: currentTargetTabId,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Open a URL in a new background tab and select it
+async function handleOpenTab({ url }) {
+  try {
+    if (!url) {
+      return { success: false, error: 'URL is required' };
+    }
+    const targetUrl = url.startsWith('http://') || url.startsWith('https://') ? url : 'https://' + url;
+
+    const tab = await chrome.tabs.create({ url: targetUrl, active: false });
+    await waitForTabLoad(tab.id);
+    const redirectError = await checkLoadedTab(tab.id);
+    if (redirectError) {
+      await chrome.tabs.remove(tab.id).catch(() => {});
+      return { success: false, policyBlocked: true, error: `Blocked by domain policy: ${redirectError}` };
+    }
+
+    const tabError = await switchToTab(tab.id);
+    if (tabError) {
+      return { success: false, error: tabError };
+    }
+    const updatedTab = await chrome.tabs.get(tab.id);
+    autoStartCapture(tab.id, updatedTab.url);
+
+    return {
+      success: true,
+      tabId: tab.id,
+      url: updatedTab.url,
+      title: updatedTab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Make a tab the target of later tools
+async function handleSwitchTab({ tabId }) {
+  try {
+    const tabError = await switchToTab(tabId);
+    if (tabError) {
+      return { success: false, error: tabError };
+    }
+
+    const tab = await chrome.tabs.get(tabId);
+    return {
+      success: true,
+      tabId,
+      url: tab.url,
+      title: tab.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Close a tab (the selected tab by default)
+async function handleCloseTab({ tabId }) {
+  try {
+    const closeId = tabId ?? currentTargetTabId;
+    if (!closeId) {
+      return { success: false, error: 'No tab selected' };
+    }
+    if (closeId === webAppTabId) {
+      return { success: false, error: 'Cannot close the assistant tab' };
+    }
+
+    if (closeId === currentTargetTabId) {
+      if (debuggerAttached || captureIntervalId) {
+        await handleStopCapture();
+        notifyWebApp({
+          type: 'CAPTURE_STOPPED',
+          payload: { reason: 'Tab closed' },
+        });
+      }
+      currentTargetTabId = null;
+    }
+    await chrome.tabs.remove(closeId);
+
+    return {
+      success: true,
+      closedTabId: closeId,
+      selectedTabId: currentTargetTabId,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Wait for specified seconds
+async function handleWait({ seconds }) {
+  try {
+    const safeSeconds = seconds ?? 1;
+    await new Promise(resolve => setTimeout(resolve, safeSeconds * 1000));
+
+    // Skip screenshot if live capture is running (avoids tab switching)
+    const tab = await getTargetTab();
+    let screenshot = null;
+    if (tab && !debuggerAttached) {
+      screenshot = await captureScreenshot(tab.id);
+    }
+
+    return {
+      success: true,
+      screenshot,
+      message: `Waited ${safeSeconds} seconds`,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Wait until an element is attached, visible, hidden or detached
+async function handleWaitForSelector({ selector, ref, state = 'visible', timeoutMs = 10000, frame }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const target = resolveTarget(selector, ref);
+    if (target.error) {
+      return { success: false, error: target.error };
+    }
+
+    const { value, elapsedMs } = await pollUntil(async () => {
+      const result = await executeInFrames(tab.id, frame, (sel, expected) => {
+        const element = __manusQuery(sel);
+        let visible = false;
+        if (element) {
+          const rect = element.getBoundingClientRect();
+          const style = getComputedStyle(element);
+          visible = rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+        }
+
+        const met = {
+          attached: !!element,
+          detached: !element,
+          visible,
+          hidden: !visible,
+        }[expected];
+        return { success: met };
+      }, [target.selector, state]).catch(() => null);
+      return result?.success ? result : null;
+    }, timeoutMs);
+
+    if (!value) {
+      return {
+        success: false,
+        timedOut: true,
+        condition: 'timeout',
+        elapsedMs,
+        error: `Timed out after ${timeoutMs}ms waiting for ${selector || `ref ${ref}`} to be ${state}`,
+      };
+    }
+
+    return {
+      success: true,
+      condition: state,
+      selector,
+      ref,
+      frameId: value.frameId,
+      elapsedMs,
+      url: (await chrome.tabs.get(tab.id)).url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Wait until the tab's URL matches a pattern (substring, glob with *, or /regex/)
+async function handleWaitForUrl({ url: pattern, timeoutMs = 10000 }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const { value, elapsedMs } = await pollUntil(async () => {
+      const current = await chrome.tabs.get(tab.id);
+      return current.url && urlMatches(current.url, pattern) ? current : null;
+    }, timeoutMs);
+
+    if (!value) {
+      const current = await chrome.tabs.get(tab.id);
+      return {
+        success: false,
+        timedOut: true,
+        condition: 'timeout',
+        elapsedMs,
+        url: current.url,
+        error: `Timed out after ${timeoutMs}ms waiting for the URL to match ${pattern}`,
+      };
+    }
+
+    return {
+      success: true,
+      condition: 'url-match',
+      elapsedMs,
+      url: value.url,
+      title: value.title,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Wait until the network is quiet: at most maxInflight requests for idleMs (CDP Network events)
+async function handleWaitForNetworkIdle({ idleMs = 500, maxInflight = 0, timeoutMs = 10000 }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const trackingError = await enableNetworkTracking(tab);
+    if (trackingError) {
+      return { success: false, error: `Network idle needs the debugger: ${trackingError}` };
+    }
+
+    const { value, elapsedMs } = await pollUntil(
+      () => inflightRequests.size <= maxInflight && Date.now() - lastNetworkActivity >= idleMs,
+      timeoutMs,
+      100
+    );
+
+    if (!value) {
+      return {
+        success: false,
+        timedOut: true,
+        condition: 'timeout',
+        elapsedMs,
+        inflight: inflightRequests.size,
+        pendingUrls: Array.from(inflightRequests.values()).slice(0, 5),
+        error: `Timed out after ${timeoutMs}ms waiting for the network to be idle`,
+      };
+    }
+
+    return {
+      success: true,
+      condition: 'network-idle',
+      elapsedMs,
+      inflight: inflightRequests.size,
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// List the XHR/fetch requests recorded on the page, or return one response body
+// (the web app parses the body and narrows it to a JSON path)
+async function handleNetworkRequests({ urlPattern, requestId, includeNonJson = false, limit = 30 }) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const trackingError = await enableNetworkTracking(tab);
+    if (trackingError) {
+      return { success: false, error: `Recording network requests needs the debugger: ${trackingError}` };
+    }
+
+    if (requestId) {
+      const entry = networkLog.get(requestId);
+      if (!entry || entry.tabId !== tab.id) {
+        return { success: false, error: `Request ${requestId} not found - call networkRequests() to list requests` };
+      }
+      if (entry.state !== 'finished') {
+        return { success: false, error: `Request ${requestId} is ${entry.state}${entry.error ? `: ${entry.error}` : ''}` };
+      }
+
+      let response;
+      try {
+        response = await chrome.debugger.sendCommand({ tabId: tab.id }, 'Network.getResponseBody', { requestId });
+      } catch (e) {
+        return { success: false, error: `Response body is no longer available (${e.message}) - reload the page and list requests again` };
+      }
+
+      return {
+        success: true,
+        request: toRequestSummary(entry),
+        body: response.base64Encoded ? decodeBase64Utf8(response.body) : response.body,
+        url: tab.url,
+      };
+    }
+
+    const matching = Array.from(networkLog.values())
+      .filter(entry => entry.tabId === tab.id)
+      .filter(entry => includeNonJson || /[/+]json\b/i.test(entry.mimeType || ''))
+      .filter(entry => !urlPattern || urlMatches(entry.url, urlPattern));
+
+    return {
+      success: true,
+      requests: matching.slice(-limit).map(toRequestSummary),
+      total: matching.length,
+      recordingSince: new Date(networkTrackedSince).toISOString(),
+      // Calls made before the debugger attached were never seen
+      hint: matching.length === 0 ? 'No matching requests recorded yet - reload the page or trigger the request (scroll, filter) and list again' : undefined,
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// List the console messages and uncaught exceptions recorded on the page
+// clear: empty the buffer afterwards, so the next call shows only what happens after
+async function handleConsoleLogs({ level = 'all', limit = 50, clear = false } = {}) {
+  try {
+    const tab = await getTargetTab();
+    if (!tab) {
+      return { success: false, error: 'No target tab found' };
+    }
+
+    const trackingError = await enableConsoleTracking(tab);
+    if (trackingError) {
+      return { success: false, error: `Recording console messages needs the debugger: ${trackingError}` };
+    }
+
+    const recorded = consoleLogs.get(tab.id) || [];
+    const matching = recorded.filter(entry => consoleLevelMatches(entry.level, level));
+    const shown = matching.slice(-limit);
+    if (clear) {
+      consoleLogs.set(tab.id, []);
+    }
+
+    return {
+      success: true,
+      // Page-controlled text - the web app wraps content as untrusted
+      content: shown.map(formatConsoleEntry).join('\n'),
+      shown: shown.length,
+      total: matching.length,
+      errors: recorded.filter(entry => consoleLevelMatches(entry.level, 'error')).length,
+      warnings: recorded.filter(entry => entry.level === 'warning').length,
+      recordingSince: new Date(consoleTrackedSince).toISOString(),
+      cleared: clear,
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Answer the JavaScript dialog open on the target tab
+async function handleHandleDialog({ accept, promptText } = {}) {
+  try {
+    const tab = await getTargetTab();
+    const dialog = tab ? openDialogs.get(tab.id) : undefined;
+    if (!dialog) {
+      return { success: false, error: 'No dialog is open on the page' };
+    }
+
+    await answerDialog(tab.id, accept !== false, promptText);
+    return {
+      success: true,
+      dialogs: [{ ...dialog }],
+      url: tab.url,
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Set how dialogs opening from now on are answered (dialogs already open stay open)
+function handleSetDialogPolicy({ policy } = {}) {
+  if (!DIALOG_POLICIES.has(policy)) {
+    return { success: false, error: `Unknown dialog policy: ${policy}` };
+  }
+  dialogPolicy = policy;
+  return { success: true, policy };
+}
+
+// Start live capture using Chrome Debugger API
+async function handleStartCapture() {
+  try {
+    // Stop any existing capture first
+    if (debuggerAttached || captureIntervalId) {
+      await handleStopCapture();
+    }
+
+    // First, ensure we have the web app tab
+    const tabs = await chrome.tabs.query({ url: 'http://localhost:3000/*' });
+    if (tabs.length === 0) {
+      return { success: false, error: 'Web app tab not found' };
+    }
+    webAppTabId = tabs[0].id;
+
+    // Get the target tab to capture
+    const targetTab = await getTargetTab();
+    if (!targetTab) {
+      return { success: false, error: 'No target tab found. Navigate to a page first.' };
+    }
+
+    console.log('[Background] Starting debugger capture for tab:', targetTab.id, targetTab.url);
+
+    // Attach debugger to target tab
+    try {
+      await chrome.debugger.attach({ tabId: targetTab.id }, '1.3');
+      debuggerAttached = true;
+      currentTargetTabId = targetTab.id;
+      console.log('[Background] Debugger attached successfully');
+    } catch (attachError) {
+      console.error('[Background] Debugger attach error:', attachError);
+      // Check if DevTools is open
+      if (attachError.message && attachError.message.includes('Another debugger')) {
+        return {
+          success: false,
+          error: 'Cannot attach debugger: DevTools may be open on the target tab. Please close DevTools and try again.',
+        };
+      }
+      return { success: false, error: attachError.message };
+    }
+
+    // Record the page's API calls from the start (networkRequests)
+    try {
+      await enableNetworkTracking(targetTab);
+    } catch (networkError) {
+      console.log('[Background] Network tracking not enabled:', networkError.message);
+    }
+    // Same for console messages and uncaught exceptions (consoleLogs)
+    try {
+      await enableConsoleTracking(targetTab);
+    } catch (consoleError) {
+      console.log('[Background] Console tracking not enabled:', consoleError.message);
+    }
+    // Page events report alert/confirm/beforeunload dialogs, answered by the dialog policy
+    try {
+      await enableDialogTracking(targetTab);
+    } catch (pageError) {
+      console.log('[Background] Dialog handling not enabled:', pageError.message);
+    }
+
+    // Start periodic screenshot capture
+    captureIntervalId = setInterval(async () => {
+      if (!debuggerAttached || !currentTargetTabId) {
+        console.log('[Background] Capture stopped: debugger not attached');
+        handleStopCapture();
+        return;
+      }
+
+      try {
+        const result = await chrome.debugger.sendCommand(
+          { tabId: currentTargetTabId },
+          'Page.captureScreenshot',
+          { format: 'jpeg', quality: 70 }
+        );
+
+        // Send screenshot to web app
+        notifyWebApp({
+          type: 'LIVE_FRAME',
+          payload: {
+            screenshot: 'data:image/jpeg;base64,' + result.data,
+            timestamp: Date.now(),
+          },
+        });
+      } catch (captureError) {
+        console.error('[Background] Capture error:', captureError);
+        // If capture fails, stop the interval
+        handleStopCapture();
+        notifyWebApp({
+          type: 'CAPTURE_STOPPED',
+          payload: { reason: captureError.message },
+        });
+      }
+    }, CAPTURE_RATE);
+
+    return {
+      success: true,
+      tabId: targetTab.id,
+      url: targetTab.url,
+      title: targetTab.title,
+      mode: 'debugger',
+    };
+  } catch (error) {
+    console.error('[Background] Start capture error:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+// Stop live capture
+async function handleStopCapture() {
+  try {
+    // Stop capture interval
+    if (captureIntervalId) {
+      clearInterval(captureIntervalId);
+      captureIntervalId = null;
+      console.log('[Background] Capture interval cleared');
+    }
+
+    // Detach debugger
+    if (debuggerAttached && currentTargetTabId) {
+      try {
+        await chrome.debugger.detach({ tabId: currentTargetTabId });
+        console.log('[Background] Debugger detached');
+      } catch (e) {
+        // Ignore errors if already detached
+        console.log('[Background] Debugger detach error (may already be detached):', e.message);
+      }
+      debuggerAttached = false;
+      networkTabId = null;
+      consoleTabId = null;
+      dialogTabId = null;
+    }
+
+    console.log('[Background] Live capture stopped');
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
   }
 }
 
@@ -517,6 +1977,11 @@ chrome.debugger.onDetach.addListener((source, reason) => {
   if (source.tabId === currentTargetTabId) {
     console.log('[Background] Debugger detached externally:', reason);
     debuggerAttached = false;
+    networkTabId = null;
+    consoleTabId = null;
+    dialogTabId = null;
+    // Without the debugger the dialog can't be answered from here
+    openDialogs.delete(source.tabId);
 
     // Stop capture interval
     if (captureIntervalId) {
@@ -524,12 +1989,162 @@ chrome.debugger.onDetach.addListener((source, reason) => {
       captureIntervalId = null;
     }
 
-    // Notify web app that capture has stopped
+    // Notify web app that capture has stopped
+    notifyWebApp({
+      type: 'CAPTURE_STOPPED',
+      payload: { reason },
+    });
+  }
+});
+
+// Track in-flight requests of the tab whose Network domain is enabled
+chrome.debugger.onEvent.addListener((source, method, params) => {
+  if (source.tabId !== networkTabId) {
+    return;
+  }
+
+  const logged = networkLog.get(params.requestId);
+  switch (method) {
+    case 'Network.requestWillBeSent':
+      inflightRequests.set(params.requestId, params.request.url);
+      // Keep XHR/fetch calls for networkRequests (documents, images and scripts aren't API data)
+      if (params.type === 'XHR' || params.type === 'Fetch') {
+        networkLog.set(params.requestId, {
+          requestId: params.requestId,
+          tabId: source.tabId,
+          method: params.request.method,
+          url: params.request.url,
+          status: null,
+          mimeType: null,
+          size: null,
+          state: 'pending',
+        });
+        if (networkLog.size > MAX_NETWORK_LOG) {
+          networkLog.delete(networkLog.keys().next().value);
+        }
+      }
+      break;
+    case 'Network.responseReceived':
+      if (logged) {
+        logged.status = params.response.status;
+        logged.mimeType = params.response.mimeType;
+      }
+      break;
+    case 'Network.loadingFinished':
+      inflightRequests.delete(params.requestId);
+      if (logged) {
+        logged.state = 'finished';
+        logged.size = params.encodedDataLength;
+      }
+      break;
+    case 'Network.loadingFailed':
+      inflightRequests.delete(params.requestId);
+      if (logged) {
+        logged.state = 'failed';
+        logged.error = params.errorText;
+      }
+      break;
+    default:
+      return;
+  }
+  lastNetworkActivity = Date.now();
+});
+
+// Record console messages and uncaught exceptions of the tab whose Runtime domain is enabled
+chrome.debugger.onEvent.addListener((source, method, params) => {
+  if (source.tabId !== consoleTabId) {
+    return;
+  }
+
+  let entry;
+  switch (method) {
+    case 'Runtime.consoleAPICalled': {
+      const frame = params.stackTrace?.callFrames?.[0];
+      entry = {
+        level: params.type,
+        text: params.args.map(formatRemoteObject).join(' '),
+        url: frame?.url || null,
+        line: frame ? frame.lineNumber + 1 : null,
+        timestamp: params.timestamp,
+      };
+      break;
+    }
+    case 'Runtime.exceptionThrown': {
+      const details = params.exceptionDetails;
+      entry = {
+        level: 'exception',
+        text: details.exception?.description || details.text,
+        url: details.url || null,
+        line: details.lineNumber + 1,
+        timestamp: params.timestamp,
+      };
+      break;
+    }
+    default:
+      return;
+  }
+
+  entry.text = String(entry.text).slice(0, MAX_CONSOLE_TEXT);
+  const entries = consoleLogs.get(source.tabId) || [];
+  entries.push(entry);
+  if (entries.length > MAX_CONSOLE_LOG) {
+    entries.shift();
+  }
+  consoleLogs.set(source.tabId, entries);
+
+  // Console panel of the web app's browser preview
+  notifyWebApp({
+    type: 'CONSOLE_ENTRY',
+    payload: { tabId: source.tabId, ...entry },
+  });
+});
+
+// Answer JavaScript dialogs of the tab with live capture by the dialog policy
+chrome.debugger.onEvent.addListener(async (source, method, params) => {
+  if (method === 'Page.javascriptDialogClosed') {
+    const handled = params.result ? 'accepted' : 'dismissed';
+    const dialog = openDialogs.get(source.tabId);
+    // Still listed if the user answered it in the tab itself
+    if (dialog) {
+      openDialogs.delete(source.tabId);
+      dialog.handled = handled;
+    }
     notifyWebApp({
-      type: 'CAPTURE_STOPPED',
-      payload: { reason },
+      type: 'DIALOG_CLOSED',
+      payload: { tabId: source.tabId, handled },
     });
+    return;
+  }
+  if (method !== 'Page.javascriptDialogOpening') {
+    return;
+  }
+
+  const dialog = {
+    tabId: source.tabId,
+    type: params.type,
+    message: params.message,
+    url: params.url,
+    defaultPrompt: params.type === 'prompt' ? params.defaultPrompt : undefined,
+    openedAt: Date.now(),
+    handled: null,
+  };
+  openDialogs.set(source.tabId, dialog);
+  if (dialogPolicy !== 'ask') {
+    try {
+      await answerDialog(source.tabId, dialogPolicy === 'accept');
+    } catch (error) {
+      console.log('[Background] Answering dialog failed:', error.message);
+    }
+  }
+
+  for (const listener of dialogListeners) {
+    listener(dialog);
   }
+  // Dialog notice (with accept/dismiss buttons while it is open) in the web app's chat
+  notifyWebApp({
+    type: 'DIALOG_OPENED',
+    payload: { ...dialog },
+  });
 });
 
 // Helper: Capture screenshot of a tab (for non-live operations)
@@ -570,6 +2185,751 @@ async function captureScreenshot(tabId) {
   }
 }
 
+// Helper: Run container/field selectors in a tab, one row per container
+async function runSelectors(tabId, container, fields, frame) {
+  const result = await executeInFrames(tabId, frame, (containerSel, fieldSels) => {
+    const MAX_ROWS = 500;
+    const items = __manusQueryAll(containerSel).slice(0, MAX_ROWS);
+    const rows = items.map(item => {
+      const row = {};
+      for (const [field, sel] of Object.entries(fieldSels)) {
+        const el = __manusQuery(sel, item);
+        row[field] = el ? (el.textContent || '').trim() : '';
+      }
+      return row;
+    });
+    // success = items found, so frame "all" picks the frame that has them
+    return { success: items.length > 0, data: rows };
+  }, [container, fields]);
+
+  // No items is still a successful run (zero rows)
+  return result?.data ? { ...result, success: true } : result;
+}
+
+// Helper: Run a DOM function in the tab with the shadow-piercing query helpers (dom-query.js) loaded
+// frame: omitted = top frame, 'all' = every frame (the first frame reporting success wins), number = that frameId
+// files: extra helper scripts the function needs (e.g. dom-markdown.js)
+async function executeInFrames(tabId, frame, func, args, files = []) {
+  const target = frame === 'all'
+    ? { tabId, allFrames: true }
+    : { tabId, frameIds: [typeof frame === 'number' ? frame : 0] };
+
+  await chrome.scripting.executeScript({ target, files: ['dom-query.js', ...files] });
+  const results = await chrome.scripting.executeScript({ target, func, args });
+
+  // Frames the script couldn't run in have no result
+  const chosen = results.find(r => r.result?.success) || results.find(r => r.result);
+  return chosen ? { ...chosen.result, frameId: chosen.frameId } : null;
+}
+
+// Helper: Select a tab as the target of later tools, moving live capture to it
+// Returns an error message, or null once selected
+async function switchToTab(tabId) {
+  let tab;
+  try {
+    tab = await chrome.tabs.get(tabId);
+  } catch (e) {
+    return `Tab ${tabId} not found. Use listTabs to see open tabs.`;
+  }
+  if (!tab.url || tab.url.startsWith('http://localhost:3000') || tab.url.startsWith('chrome://')) {
+    return `Tab ${tabId} can't be automated`;
+  }
+  if (tabId === currentTargetTabId) {
+    return null;
+  }
+
+  // Stop before switching - handleStopCapture detaches from the current target tab
+  const capturing = debuggerAttached || captureIntervalId;
+  if (capturing) {
+    await handleStopCapture();
+  }
+  currentTargetTabId = tabId;
+  // Wait for the reattach so tools that need the debugger right away find it attached
+  if (capturing && (await handleStartCapture()).success) {
+    notifyWebApp({
+      type: 'CAPTURE_STARTED',
+      payload: { tabId, url: tab.url },
+    });
+  }
+  return null;
+}
+
+// Helper: Start live capture on the target tab if it isn't running (doesn't wait for it)
+function autoStartCapture(tabId, url) {
+  if (debuggerAttached || captureIntervalId) {
+    return;
+  }
+
+  console.log('[Background] Auto-starting live capture');
+  handleStartCapture().then(result => {
+    if (result.success) {
+      // Notify web app that live capture has started
+      notifyWebApp({
+        type: 'CAPTURE_STARTED',
+        payload: { tabId, url },
+      });
+    }
+  }).catch(e => {
+    console.error('[Background] Auto-start capture failed:', e);
+  });
+}
+
+// Helper: Enable CDP Network events for the tab (requests already in flight aren't seen)
+// Returns an error message, or null once enabled
+async function enableNetworkTracking(tab) {
+  const debuggerError = await ensureDebugger(tab);
+  if (debuggerError) {
+    return debuggerError;
+  }
+  if (networkTabId === tab.id) {
+    return null;
+  }
+
+  inflightRequests.clear();
+  await chrome.debugger.sendCommand({ tabId: tab.id }, 'Network.enable', {});
+  networkTabId = tab.id;
+  lastNetworkActivity = Date.now();
+  networkTrackedSince = Date.now();
+  return null;
+}
+
+// Helper: Enable CDP Runtime events for the tab (console messages and uncaught exceptions)
+// Returns an error message, or null once enabled
+async function enableConsoleTracking(tab) {
+  const debuggerError = await ensureDebugger(tab);
+  if (debuggerError) {
+    return debuggerError;
+  }
+  if (consoleTabId === tab.id) {
+    return null;
+  }
+
+  // Runtime.enable replays the messages the page already logged - start the buffer over
+  consoleLogs.set(tab.id, []);
+  // Set before enabling so the replayed messages are recorded
+  consoleTabId = tab.id;
+  consoleTrackedSince = Date.now();
+  try {
+    await chrome.debugger.sendCommand({ tabId: tab.id }, 'Runtime.enable', {});
+  } catch (error) {
+    consoleTabId = null;
+    throw error;
+  }
+  return null;
+}
+
+// Helper: Enable CDP Page events on the tab, so dialogs are reported and answered by the dialog policy
+// Returns an error message, or null once enabled
+async function enableDialogTracking(tab) {
+  const debuggerError = await ensureDebugger(tab);
+  if (debuggerError) {
+    return debuggerError;
+  }
+  if (dialogTabId === tab.id) {
+    return null;
+  }
+
+  await chrome.debugger.sendCommand({ tabId: tab.id }, 'Page.enable', {});
+  dialogTabId = tab.id;
+  return null;
+}
+
+// Helper: Answer the dialog open on a tab (accept also confirms leaving the page for beforeunload)
+async function answerDialog(tabId, accept, promptText) {
+  const dialog = openDialogs.get(tabId);
+  const params = { accept };
+  if (typeof promptText === 'string') {
+    params.promptText = promptText;
+  }
+  await chrome.debugger.sendCommand({ tabId }, 'Page.handleJavaScriptDialog', params);
+  openDialogs.delete(tabId);
+  if (dialog) {
+    dialog.handled = accept ? 'accepted' : 'dismissed';
+  }
+}
+
+// Helper: Result of a tool stopped by a dialog waiting for an answer
+function dialogOpenResult(dialog) {
+  return {
+    success: false,
+    dialogOpen: true,
+    error: `A ${dialog.type} dialog is open on the page and blocks it until answered. Call handleDialog to accept or dismiss it, or ask the user.`,
+    dialogs: [{ ...dialog }],
+  };
+}
+
+// Helper: Console argument as text (CDP RemoteObject)
+function formatRemoteObject(arg) {
+  if (arg.type === 'string') {
+    return arg.value;
+  }
+  if ('unserializableValue' in arg) {
+    return arg.unserializableValue;
+  }
+  if ('value' in arg) {
+    return typeof arg.value === 'object' ? JSON.stringify(arg.value) : String(arg.value);
+  }
+  return arg.description || arg.type;
+}
+
+// Helper: Whether a console entry is at least the requested level
+function consoleLevelMatches(entryLevel, level) {
+  if (level === 'error') {
+    return entryLevel === 'error' || entryLevel === 'assert' || entryLevel === 'exception';
+  }
+  if (level === 'warning') {
+    return entryLevel === 'warning' || consoleLevelMatches(entryLevel, 'error');
+  }
+  return true;
+}
+
+// Helper: One console line, e.g. [12:00:01.250] exception: TypeError: x is undefined (https://site/app.js:12)
+function formatConsoleEntry(entry) {
+  const time = new Date(entry.timestamp).toISOString().slice(11, 23);
+  const location = entry.url ? ` (${entry.url}${entry.line ? `:${entry.line}` : ''})` : '';
+  return `[${time}] ${entry.level}: ${entry.text}${location}`;
+}
+
+// Helper: Keep an extract's chunks for extractMore; returns the cursor id
+function storeExtractChunks(chunks, meta) {
+  const cursorId = `x${nextCursorId++}`;
+  extractCursors.set(cursorId, { chunks, ...meta });
+  if (extractCursors.size > MAX_EXTRACT_CURSORS) {
+    extractCursors.delete(extractCursors.keys().next().value);
+  }
+  return cursorId;
+}
+
+// Helper: Chunk number, total and the cursor of the next chunk (null after the last)
+function chunkPosition(cursorId, index, total) {
+  return {
+    chunk: index + 1,
+    totalChunks: total,
+    cursor: index + 1 < total ? `${cursorId}:${index + 1}` : null,
+  };
+}
+
+// Helper: Recorded request as listed by networkRequests
+function toRequestSummary(entry) {
+  return {
+    requestId: entry.requestId,
+    method: entry.method,
+    url: entry.url,
+    status: entry.status,
+    mimeType: entry.mimeType,
+    size: entry.size,
+  };
+}
+
+// Helper: Decode a base64 response body as UTF-8 text
+function decodeBase64Utf8(data) {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// Helper: Encode text as base64 UTF-8 (in slices - spreading a large array overflows the stack)
+function encodeBase64Utf8(text) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Helper: Call check until it returns a truthy value or the timeout passes
+async function pollUntil(check, timeoutMs, interval = 200) {
+  const startTime = Date.now();
+  while (true) {
+    const value = await check();
+    const elapsedMs = Date.now() - startTime;
+    if (value || elapsedMs >= timeoutMs) {
+      return { value: value || null, elapsedMs };
+    }
+    await new Promise(resolve => setTimeout(resolve, interval));
+  }
+}
+
+// Helper: Match a URL against a substring, a glob ("*" = any characters) or a /regex/
+function urlMatches(url, pattern) {
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    try {
+      return new RegExp(pattern.slice(1, -1)).test(url);
+    } catch (e) {
+      return false;
+    }
+  }
+  if (pattern.includes('*')) {
+    const regex = new RegExp('^' + pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$');
+    return regex.test(url);
+  }
+  return url.includes(pattern);
+}
+
+// Helper: Make sure the debugger is attached to the tab (through live capture)
+// Returns an error message, or null once attached
+async function ensureDebugger(tab) {
+  if (debuggerAttached && currentTargetTabId === tab.id) {
+    return null;
+  }
+
+  const capture = await handleStartCapture();
+  if (!capture.success) {
+    return capture.error;
+  }
+  notifyWebApp({
+    type: 'CAPTURE_STARTED',
+    payload: { tabId: tab.id, url: tab.url },
+  });
+  return null;
+}
+
+// Helper: Scroll an element into view and get its center in viewport coordinates
+async function getElementCenter(tabId, selector, frame) {
+  const result = await executeInFrames(tabId, frame, (sel) => {
+    const element = __manusQuery(sel);
+    if (!element) {
+      return { success: false, error: `Element not found: ${sel}` };
+    }
+
+    element.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return { success: false, error: `Element is not visible: ${sel}` };
+    }
+
+    let x = rect.left + rect.width / 2;
+    let y = rect.top + rect.height / 2;
+
+    // Report an overlay (cookie banner, modal) that would receive the click instead
+    const hit = element.getRootNode().elementFromPoint?.(x, y) ?? document.elementFromPoint(x, y);
+    const covered = hit && !element.contains(hit) && !hit.contains(element);
+    const coveredBy = covered
+      ? hit.tagName.toLowerCase() + (hit.id ? `#${hit.id}` : '') + (typeof hit.className === 'string' && hit.className ? `.${hit.className.trim().split(/\s+/).join('.')}` : '')
+      : undefined;
+
+    // Input events use top-level viewport coordinates - add the offsets of enclosing iframes
+    let win = window;
+    while (win !== win.top) {
+      const owner = win.frameElement;
+      if (!owner) {
+        return { success: false, error: 'Trusted input is not available in cross-origin frames - use mode "synthetic"' };
+      }
+      const ownerRect = owner.getBoundingClientRect();
+      x += ownerRect.left + owner.clientLeft;
+      y += ownerRect.top + owner.clientTop;
+      win = win.parent;
+    }
+
+    return { success: true, x, y, coveredBy };
+  }, [selector]);
+  return result || { success: false, error: 'Could not locate element' };
+}
+
+// Helper: Scroll an element into view and get its box in top-level page coordinates (screenshot clip)
+async function getElementPageBox(tabId, selector, frame) {
+  const result = await executeInFrames(tabId, frame, (sel) => {
+    const element = __manusQuery(sel);
+    if (!element) {
+      return { success: false, error: `Element not found: ${sel}` };
+    }
+
+    element.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return { success: false, error: `Element is not visible: ${sel}` };
+    }
+
+    // Add the offsets of enclosing iframes, then the top page's scroll position
+    let x = rect.left;
+    let y = rect.top;
+    let win = window;
+    while (win !== win.top) {
+      const owner = win.frameElement;
+      if (!owner) {
+        return { success: false, error: 'Element screenshots are not available in cross-origin frames' };
+      }
+      const ownerRect = owner.getBoundingClientRect();
+      x += ownerRect.left + owner.clientLeft;
+      y += ownerRect.top + owner.clientTop;
+      win = win.parent;
+    }
+
+    return {
+      success: true,
+      clip: { x: x + win.scrollX, y: y + win.scrollY, width: rect.width, height: rect.height },
+    };
+  }, [selector]);
+  return result || { success: false, error: 'Could not locate element' };
+}
+
+// Helper: Click an element with real mouse events at its on-screen center (CDP Input domain)
+async function trustedClick(tab, selector, frame) {
+  const debuggerError = await ensureDebugger(tab);
+  if (debuggerError) {
+    return { success: false, error: `Trusted click needs the debugger: ${debuggerError}` };
+  }
+
+  const point = await getElementCenter(tab.id, selector, frame);
+  if (!point.success) {
+    return point;
+  }
+  // The click would land on the overlay instead - the model has to close it first
+  if (point.coveredBy) {
+    return {
+      success: false,
+      coveredBy: point.coveredBy,
+      error: `Element is covered by ${point.coveredBy} (cookie banner, modal?) - close it first, then click again`,
+    };
+  }
+
+  const debuggee = { tabId: tab.id };
+  const { x, y } = point;
+  await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y });
+  await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button: 'left', clickCount: 1 });
+  await chrome.debugger.sendCommand(debuggee, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button: 'left', clickCount: 1 });
+
+  return { success: true, frameId: point.frameId };
+}
+
+// Helper: Type like a user - click into the field, clear it with Backspace, insert the text
+async function trustedType(tab, selector, text, frame) {
+  const click = await trustedClick(tab, selector, frame);
+  if (!click.success) {
+    return click;
+  }
+
+  // Select the current content so one Backspace clears it (in the frame the click landed in)
+  const result = await executeInFrames(tab.id, click.frameId, (sel) => {
+    const element = __manusQuery(sel);
+    if (!element) {
+      return { success: false, hasContent: false };
+    }
+    element.focus();
+    if (typeof element.select === 'function') {
+      element.select();
+      return { success: true, hasContent: !!element.value };
+    }
+    if (element.isContentEditable) {
+      const range = document.createRange();
+      range.selectNodeContents(element);
+      const selection = window.getSelection();
+      selection.removeAllRanges();
+      selection.addRange(range);
+      return { success: true, hasContent: !!element.textContent };
+    }
+    return { success: true, hasContent: false };
+  }, [selector]);
+
+  const debuggee = { tabId: tab.id };
+  if (result?.hasContent) {
+    const backspace = { key: 'Backspace', code: 'Backspace', windowsVirtualKeyCode: 8, nativeVirtualKeyCode: 8 };
+    await chrome.debugger.sendCommand(debuggee, 'Input.dispatchKeyEvent', { type: 'rawKeyDown', ...backspace });
+    await chrome.debugger.sendCommand(debuggee, 'Input.dispatchKeyEvent', { type: 'keyUp', ...backspace });
+  }
+  if (text) {
+    await chrome.debugger.sendCommand(debuggee, 'Input.insertText', { text });
+  }
+
+  return { success: true, frameId: click.frameId };
+}
+
+// Helper: Parse a key chord like "Control+Shift+K" or "Control++" into modifiers and a key
+function parseKeyChord(chord) {
+  const parts = chord.split('+');
+  let key = parts.pop();
+  if (key === '' && parts.length > 0) {
+    // The "+" key itself ("Control++")
+    parts.pop();
+    key = '+';
+  }
+
+  const aliases = { Ctrl: 'Control', Cmd: 'Meta', Command: 'Meta', Option: 'Alt', Esc: 'Escape', Return: 'Enter' };
+  const modifiers = parts.map(part => aliases[part] || part);
+  const unknown = modifiers.find(modifier => !(modifier in KEY_MODIFIERS));
+  if (unknown) {
+    return { error: `Unknown modifier: ${unknown}. Use Shift, Control, Alt or Meta` };
+  }
+
+  const definition = keyDefinition(aliases[key] || key, modifiers.includes('Shift'));
+  if (!definition) {
+    return { error: `Unknown key: ${key}` };
+  }
+  return { modifiers, definition };
+}
+
+// Helper: CDP key fields for a named key or a single character
+function keyDefinition(key, shift) {
+  if (KEY_DEFINITIONS[key]) {
+    return { key, ...KEY_DEFINITIONS[key] };
+  }
+  if (/^F([1-9]|1[0-2])$/.test(key)) {
+    return { key, code: key, keyCode: 111 + Number(key.slice(1)) };
+  }
+  if (key.length !== 1) {
+    return null;
+  }
+
+  if (/[a-z]/i.test(key)) {
+    const char = shift ? key.toUpperCase() : key.toLowerCase();
+    return { key: char, code: `Key${key.toUpperCase()}`, keyCode: key.toUpperCase().charCodeAt(0), text: char };
+  }
+  if (/[0-9]/.test(key)) {
+    return { key, code: `Digit${key}`, keyCode: key.charCodeAt(0), text: key };
+  }
+  return { key, code: '', keyCode: 0, text: key };
+}
+
+// Helper: Press a parsed chord: modifiers down, key down/up, modifiers up
+async function dispatchKeyChord(tabId, { modifiers, definition }) {
+  const debuggee = { tabId };
+  let bits = 0;
+  const keyEvent = (type, def) => ({
+    type,
+    modifiers: bits,
+    key: def.key,
+    code: def.code,
+    windowsVirtualKeyCode: def.keyCode,
+    nativeVirtualKeyCode: def.keyCode,
+  });
+
+  for (const modifier of modifiers) {
+    bits |= KEY_MODIFIERS[modifier];
+    await chrome.debugger.sendCommand(debuggee, 'Input.dispatchKeyEvent', keyEvent('rawKeyDown', keyDefinition(modifier)));
+  }
+
+  // Text only without command modifiers (Control+A selects, it doesn't type "a")
+  const text = bits & (KEY_MODIFIERS.Control | KEY_MODIFIERS.Alt | KEY_MODIFIERS.Meta) ? undefined : definition.text;
+  await chrome.debugger.sendCommand(debuggee, 'Input.dispatchKeyEvent', {
+    ...keyEvent(text ? 'keyDown' : 'rawKeyDown', definition),
+    text,
+    unmodifiedText: text,
+  });
+  await chrome.debugger.sendCommand(debuggee, 'Input.dispatchKeyEvent', keyEvent('keyUp', definition));
+
+  for (const modifier of [...modifiers].reverse()) {
+    bits &= ~KEY_MODIFIERS[modifier];
+    await chrome.debugger.sendCommand(debuggee, 'Input.dispatchKeyEvent', keyEvent('keyUp', keyDefinition(modifier)));
+  }
+}
+
+// Helper: Selector for a click/type/extract target given as a CSS selector or snapshot ref
+function resolveTarget(selector, ref) {
+  if (ref) {
+    if (!/^e\d+$/.test(ref)) {
+      return { selector: null, error: `Invalid ref: ${ref}. Use a ref from snapshot, e.g. "e12"` };
+    }
+    return { selector: `[${REF_ATTRIBUTE}="${ref}"]` };
+  }
+  if (!selector) {
+    return { selector: null, error: 'A selector or ref is required' };
+  }
+  return { selector };
+}
+
+// Helper: Explain a missing ref (the element was removed or the page changed since the snapshot)
+function refNotFound(result, ref) {
+  // A covered element was found - keep the error naming the overlay
+  if (!ref || !result || result.success || result.coveredBy) {
+    return result;
+  }
+  return { ...result, error: `Element not found for ref ${ref} - take a new snapshot` };
+}
+
+// Helper: One snapshot line, e.g. [e42] button "Add to cart" (disabled)
+function formatSnapshotLine(ref, node) {
+  const role = node.role.value;
+  const name = (node.name?.value || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+  let line = `[${ref}] ${role}${name ? ` ${JSON.stringify(name)}` : ''}`;
+
+  const value = node.value?.value;
+  if (value !== undefined && value !== '' && String(value) !== name) {
+    line += ` value=${JSON.stringify(String(value).slice(0, 80))}`;
+  }
+
+  const states = [];
+  for (const property of node.properties || []) {
+    const propertyValue = property.value?.value;
+    if (['disabled', 'required', 'selected', 'focused'].includes(property.name) && propertyValue === true) {
+      states.push(property.name);
+    } else if (['checked', 'pressed', 'expanded'].includes(property.name) && propertyValue !== undefined) {
+      states.push(`${property.name}=${propertyValue}`);
+    }
+  }
+  if (states.length > 0) {
+    line += ` (${states.join(', ')})`;
+  }
+  return line;
+}
+
+// Helper: Load the domain policy bundled with the extension
+function loadDomainPolicy() {
+  if (!domainPolicyPromise) {
+    domainPolicyPromise = fetch(chrome.runtime.getURL('domain-policy.json'))
+      .then(response => response.json())
+      .then(policy => ({ allow: [], deny: [], readOnly: [], ...policy }))
+      .catch(error => {
+        console.error('[Background] Failed to load domain policy:', error);
+        return { allow: [], deny: [], readOnly: [] };
+      });
+  }
+  return domainPolicyPromise;
+}
+
+// Helper: IP address as bytes (4 for IPv4, 16 for IPv6; brackets allowed), or null for host names
+function parseIp(host) {
+  const v4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (v4) {
+    const bytes = v4.slice(1).map(Number);
+    return bytes.every(b => b <= 255) ? bytes : null;
+  }
+
+  const v6 = /^\[?([0-9a-f:]+)\]?$/i.exec(host);
+  if (!v6 || !v6[1].includes(':')) {
+    return null;
+  }
+  const halves = v6[1].split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(g => !/^[0-9a-f]{1,4}$/i.test(g))) {
+    return null;
+  }
+  return groups.flatMap(g => [parseInt(g, 16) >> 8, parseInt(g, 16) & 0xff]);
+}
+
+// Helper: Whether an IP host is inside a CIDR range (IPv4-mapped IPv6 hosts are checked as IPv4)
+function matchesCidr(range, host) {
+  const [network, prefix] = range.split('/');
+  const networkBytes = parseIp(network);
+  let hostBytes = parseIp(host);
+  if (hostBytes?.length === 16 && hostBytes.slice(0, 10).every(b => b === 0) && hostBytes[10] === 0xff && hostBytes[11] === 0xff) {
+    hostBytes = hostBytes.slice(12);
+  }
+  if (!networkBytes || !hostBytes || networkBytes.length !== hostBytes.length) {
+    return false;
+  }
+
+  const bits = Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > networkBytes.length * 8) {
+    return false;
+  }
+  for (let i = 0; i * 8 < bits; i++) {
+    const mask = (0xff << (8 - Math.min(8, bits - i * 8))) & 0xff;
+    if ((networkBytes[i] & mask) !== (hostBytes[i] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Helper: Match a host against a policy pattern ("*.example.com" also matches example.com,
+// "10.0.0.0/8" and "fc00::/7" are IP ranges)
+function matchesHost(pattern, host) {
+  const p = pattern.toLowerCase();
+  if (p.includes('/')) {
+    return matchesCidr(p, host);
+  }
+  if (p.startsWith('*.') && host === p.slice(2)) {
+    return true;
+  }
+  const regex = new RegExp('^' + p.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$');
+  return regex.test(host);
+}
+
+// Helper: Check a URL against the domain policy - returns an error message or null
+// action: 'navigate' (load the URL), 'read' (inject scripts), 'write' (click/type)
+// Hosts are matched by name, never resolved - IP ranges only catch literal addresses
+async function checkDomain(url, action) {
+  const policy = await loadDomainPolicy();
+
+  let parsed;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : 'https://' + url);
+  } catch (e) {
+    return `Invalid URL: ${url}`;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `${parsed.protocol} URLs are not allowed`;
+  }
+
+  // "localhost." is localhost too
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (policy.deny.some(p => matchesHost(p, host))) {
+    return `${host} is on the domain denylist`;
+  }
+  if (policy.allow.length > 0 && !policy.allow.some(p => matchesHost(p, host))) {
+    return `${host} is not on the domain allowlist`;
+  }
+  if (action === 'write' && policy.readOnly.some(p => matchesHost(p, host))) {
+    return `${host} is read-only: clicking and typing are not allowed`;
+  }
+  return null;
+}
+
+// Helper: Domain check for a tool call (navigation target, or the page and targeted frames of the
+// tab it acts on - the requested tabId, else the target tab)
+async function checkToolDomain(toolName, args) {
+  if (toolName === 'navigate' || toolName === 'openTab') {
+    return args?.url ? await checkDomain(args.url, 'navigate') : null;
+  }
+
+  const action = TOOL_DOMAIN_ACTIONS[toolName];
+  if (!action) {
+    return null;
+  }
+  const tab = await getToolTab(args);
+  if (!tab?.url) {
+    return null;
+  }
+  const pageError = await checkDomain(tab.url, action);
+  if (pageError || args?.frame === undefined || args.frame === null || args.frame === 0) {
+    return pageError;
+  }
+  return await checkFrameDomains(tab.id, args.frame, action);
+}
+
+// Helper: Domain check for the iframes a tool runs in (frame: 'all' or a frameId) - they can be from any site
+async function checkFrameDomains(tabId, frame, action) {
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId })) || [];
+  const targeted = frame === 'all' ? frames : frames.filter(f => f.frameId === frame);
+  for (const { frameId, url } of targeted) {
+    // about:blank and srcdoc frames belong to the page that created them
+    const frameUrl = url.startsWith('blob:') ? url.slice(5) : url;
+    if (!/^https?:/i.test(frameUrl)) {
+      continue;
+    }
+    const error = await checkDomain(frameUrl, action);
+    if (error) {
+      return frame === 'all'
+        ? `frame ${frameId} (${url}): ${error} - pass the frameId of an allowed frame instead of "all"`
+        : `frame ${frameId} (${url}): ${error}`;
+    }
+  }
+  return null;
+}
+
+// Helper: Re-check the domain policy on where a tab ended up after redirects - blocked pages are
+// replaced by about:blank; returns an error message or null
+async function checkLoadedTab(tabId) {
+  const tab = await chrome.tabs.get(tabId);
+  const error = tab.url ? await checkDomain(tab.url, 'navigate') : null;
+  if (!error) {
+    return null;
+  }
+  await chrome.tabs.update(tabId, { url: 'about:blank' });
+  return `redirected to a blocked page: ${error}`;
+}
+
 // Helper: Wait for tab to finish loading
 function waitForTabLoad(tabId, timeout = 30000) {
   return new Promise((resolve, reject) => {
@@ -625,6 +2985,8 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
 
 // Handle tab removal - clean up if target tab is closed
 chrome.tabs.onRemoved.addListener((tabId) => {
+  consoleLogs.delete(tabId);
+  openDialogs.delete(tabId);
   if (tabId === currentTargetTabId) {
     console.log('[Background] Target tab closed, stopping capture');
     handleStopCapture();
@@ -74,6 +74,24 @@
         type: 'CAPTURE_STARTED',
         payload: request.payload,
       }, '*');
+    } else if (request.type === 'CRAWL_PROGRESS') {
+      // Forward crawl progress to the web app
+      window.postMessage({
+        type: 'CRAWL_PROGRESS',
+        payload: request.payload,
+      }, '*');
+    } else if (request.type === 'CONSOLE_ENTRY') {
+      // Forward console messages of the target tab to the web app
+      window.postMessage({
+        type: 'CONSOLE_ENTRY',
+        payload: request.payload,
+      }, '*');
+    } else if (request.type === 'DIALOG_OPENED' || request.type === 'DIALOG_CLOSED') {
+      // Forward JavaScript dialogs of the target tab to the web app
+      window.postMessage({
+        type: request.type,
+        payload: request.payload,
+      }, '*');
     } else if (request.type === 'CAPTURE_STOPPED') {
       // Forward capture stopped notification to web app
       console.log('[Manus Bridge] Capture stopped');
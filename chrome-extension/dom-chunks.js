@@ -0,0 +1,88 @@
+// Chunked content for extract/extractMore
+// Injected next to dom-query.js and dom-markdown.js (the headless runner
+// evaluates this file too). Content is split on element boundaries: an
+// element that fits in a chunk stays whole, a larger one is split into its
+// children. Markdown is split between blocks. Only a single element (or block)
+// longer than a chunk is cut mid-text, at whitespace.
+(() => {
+  // Cut text longer than size at the last whitespace before the limit
+  function splitText(text, size) {
+    const pieces = [];
+    let rest = text;
+    while (rest.length > size) {
+      const cut = rest.lastIndexOf(' ', size) > size / 2 ? rest.lastIndexOf(' ', size) : size;
+      pieces.push(rest.slice(0, cut));
+      rest = rest.slice(cut).trimStart();
+    }
+    if (rest) {
+      pieces.push(rest);
+    }
+    return pieces;
+  }
+
+  // Content of a node as one or more units no longer than size
+  function elementUnits(node, type, size) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent.trim();
+      return text ? splitText(text, size) : [];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return [];
+    }
+    // innerText skips hidden elements, but not when asked for the hidden element itself
+    if (type === 'text' && node.checkVisibility && !node.checkVisibility()) {
+      return [];
+    }
+
+    const content = type === 'html' ? node.outerHTML : node.innerText.trim();
+    if (content.length <= size) {
+      return content ? [content] : [];
+    }
+    const children = Array.from(node.shadowRoot?.childNodes || node.childNodes);
+    if (children.length === 0 || (type === 'text' && !children.some(child => child.nodeType === Node.ELEMENT_NODE))) {
+      return splitText(content, size);
+    }
+    return children.flatMap(child => elementUnits(child, type, size));
+  }
+
+  // Markdown blocks (paragraphs, lists, tables) as units; oversized ones by line
+  function markdownUnits(markdown, size) {
+    return markdown.split(/\n{2,}/).flatMap(block => {
+      if (block.length <= size) {
+        return [block];
+      }
+      return block.split('\n').flatMap(line => splitText(line, size));
+    });
+  }
+
+  // Pack units into chunks of at most size characters
+  function pack(units, size, separator) {
+    const chunks = [];
+    let current = '';
+    for (const unit of units) {
+      if (current && current.length + separator.length + unit.length > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? current + separator + unit : unit;
+    }
+    if (current) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  // Split an element's content (text, html or markdown) into chunks of at most size characters
+  globalThis.__manusChunks = function (element, type, size, { mainContent = false } = {}) {
+    if (type === 'markdown') {
+      const { markdown, region } = globalThis.__manusMarkdown(element, { mainContent });
+      return { chunks: pack(markdownUnits(markdown, size), size, '\n\n'), length: markdown.length, region };
+    }
+
+    const units = elementUnits(element, type, size);
+    return {
+      chunks: pack(units, size, '\n'),
+      length: units.reduce((total, unit) => total + unit.length, 0),
+    };
+  };
+})();
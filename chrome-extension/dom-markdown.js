@@ -0,0 +1,217 @@
+// Markdown conversion for extract({type: "markdown"})
+// Injected next to dom-query.js (the headless runner evaluates this file too).
+// Keeps headings, links, image alts, lists, tables and code; drops scripts,
+// form controls and hidden elements. Whole-page extracts are first narrowed
+// to the main content region, readability-style, without navigation chrome.
+// Wrapped so re-injecting into the same frame doesn't redeclare anything.
+(() => {
+  const SKIP_TAGS = new Set([
+    'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'OBJECT',
+    'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA',
+  ]);
+  const BLOCK_TAGS = new Set([
+    'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'FOOTER', 'NAV', 'ASIDE', 'FORM', 'FIELDSET',
+    'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'DETAILS', 'SUMMARY', 'ADDRESS', 'LI',
+  ]);
+  // Page chrome left out of whole-page extracts (header/footer only outside the content)
+  const CHROME_ROLES = new Set(['navigation', 'complementary', 'search']);
+  const PAGE_CHROME_ROLES = new Set(['banner', 'contentinfo']);
+
+  function isHidden(el) {
+    if (el.hidden || el.getAttribute('aria-hidden') === 'true') {
+      return true;
+    }
+    return el.checkVisibility ? !el.checkVisibility() : getComputedStyle(el).display === 'none';
+  }
+
+  function isChrome(el) {
+    const role = el.getAttribute('role');
+    if (el.tagName === 'NAV' || el.tagName === 'ASIDE' || CHROME_ROLES.has(role)) {
+      return true;
+    }
+    if (el.tagName === 'HEADER' || el.tagName === 'FOOTER' || PAGE_CHROME_ROLES.has(role)) {
+      // An article's own header holds its title
+      return !el.parentElement?.closest('article, main, [role="main"]');
+    }
+    return false;
+  }
+
+  // Main content: the largest main/article landmark, else the container
+  // holding the most paragraph text - if it covers a fair share of the page
+  function findMainContent(root) {
+    const textLength = el => (el.textContent || '').replace(/\s+/g, ' ').trim().length;
+    const total = textLength(root) || 1;
+
+    const landmarks = Array.from(root.querySelectorAll('main, [role="main"], article'))
+      .filter(el => !isHidden(el))
+      .sort((a, b) => textLength(b) - textLength(a));
+    if (landmarks[0] && textLength(landmarks[0]) >= total * 0.25) {
+      return landmarks[0];
+    }
+
+    const scores = new Map();
+    for (const paragraph of root.querySelectorAll('p, pre, td, li')) {
+      const length = textLength(paragraph);
+      if (length < 25) continue;
+      const parent = paragraph.parentElement;
+      const grandparent = parent?.parentElement;
+      if (parent) scores.set(parent, (scores.get(parent) || 0) + length);
+      if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + length / 2);
+    }
+    let best = null;
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+      if (score > bestScore && !isHidden(el)) {
+        best = el;
+        bestScore = score;
+      }
+    }
+    return best && textLength(best) >= total * 0.25 ? best : root;
+  }
+
+  function childNodesOf(el) {
+    if (el.shadowRoot) {
+      return el.shadowRoot.childNodes;
+    }
+    if (el.tagName === 'SLOT') {
+      const assigned = el.assignedNodes({ flatten: true });
+      if (assigned.length > 0) return assigned;
+    }
+    return el.childNodes;
+  }
+
+  function renderChildren(el, ctx) {
+    return Array.from(childNodesOf(el)).map(child => render(child, ctx)).join('');
+  }
+
+  // Blocks are separated by blank lines; single spaces left over from
+  // collapsed whitespace are removed from line starts (list indents stay)
+  function block(text) {
+    const trimmed = text.trim().replace(/\n (?=\S)/g, '\n');
+    return trimmed ? `\n\n${trimmed}\n\n` : '';
+  }
+
+  function wrapInline(text, marker) {
+    const trimmed = text.trim();
+    return trimmed ? `${marker}${trimmed}${marker}` : '';
+  }
+
+  function render(node, ctx) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return ctx.pre ? node.textContent : node.textContent.replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+
+    const el = node;
+    // SVG tag names are lowercase
+    const tag = el.tagName.toUpperCase();
+    if (SKIP_TAGS.has(tag) || isHidden(el) || (ctx.stripChrome && isChrome(el))) {
+      return '';
+    }
+
+    switch (tag) {
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6': {
+        const text = renderChildren(el, ctx).replace(/\s+/g, ' ').trim();
+        return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+      }
+      case 'P':
+        return block(renderChildren(el, ctx));
+      case 'BR':
+        return '\n';
+      case 'HR':
+        return block('---');
+      case 'A': {
+        const text = renderChildren(el, ctx).replace(/\s+/g, ' ').trim();
+        const href = el.href;
+        if (!text || !href || href.startsWith('javascript:')) {
+          return text;
+        }
+        return `[${text}](${href})`;
+      }
+      case 'IMG': {
+        const alt = (el.alt || '').trim();
+        if (!alt) return '';
+        const src = el.currentSrc || el.src;
+        // Skip inline data: images - the alt is what the model needs
+        return /^https?:/.test(src) ? `![${alt}](${src})` : `![${alt}]`;
+      }
+      case 'STRONG':
+      case 'B':
+        return wrapInline(renderChildren(el, ctx), '**');
+      case 'EM':
+      case 'I':
+        return wrapInline(renderChildren(el, ctx), '_');
+      case 'CODE':
+        return ctx.pre ? el.textContent : wrapInline(el.textContent, '`');
+      case 'PRE':
+        return block('```\n' + el.textContent.replace(/\n$/, '') + '\n```');
+      case 'BLOCKQUOTE': {
+        const text = renderChildren(el, ctx).trim().replace(/\n{3,}/g, '\n\n');
+        return text ? block(text.split('\n').map(line => `> ${line}`).join('\n')) : '';
+      }
+      case 'UL':
+      case 'OL':
+        return block(renderList(el, ctx));
+      case 'TABLE':
+        return block(renderTable(el, ctx));
+      default:
+        return BLOCK_TAGS.has(tag) ? block(renderChildren(el, ctx)) : renderChildren(el, ctx);
+    }
+  }
+
+  function renderList(list, ctx) {
+    let index = Number(list.getAttribute('start')) || 1;
+    const items = [];
+    for (const item of list.children) {
+      if (item.tagName !== 'LI' || isHidden(item)) continue;
+      const marker = list.tagName === 'OL' ? `${index++}. ` : '- ';
+      const content = renderChildren(item, ctx).trim().replace(/\n{2,}/g, '\n');
+      if (!content) continue;
+      // Nested lists and extra lines are indented under the marker
+      items.push(marker + content.split('\n').join('\n' + ' '.repeat(marker.length)));
+    }
+    return items.join('\n');
+  }
+
+  function renderTable(table, ctx) {
+    const rows = Array.from(table.rows)
+      .filter(row => !isHidden(row))
+      .map(row => Array.from(row.cells).map(cell =>
+        renderChildren(cell, ctx).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')
+      ))
+      .filter(cells => cells.some(Boolean));
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const width = Math.max(...rows.map(cells => cells.length));
+    // One-column layout tables read better as plain lines
+    if (width === 1) {
+      return rows.map(cells => cells[0]).join('\n\n');
+    }
+    const line = cells => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+  }
+
+  function describe(el) {
+    const classes = Array.from(el.classList).slice(0, 2).map(name => `.${name}`).join('');
+    return el.tagName.toLowerCase() + (el.id ? `#${el.id}` : '') + classes;
+  }
+
+  // Convert an element to markdown; mainContent narrows it to the main region first
+  globalThis.__manusMarkdown = function (element, { mainContent = false } = {}) {
+    const root = mainContent ? findMainContent(element) : element;
+    const markdown = render(root, { pre: false, stripChrome: mainContent })
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return { markdown, region: describe(root) };
+  };
+})();
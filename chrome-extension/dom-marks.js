@@ -0,0 +1,91 @@
+// Set-of-marks overlay for screenshot({marks: true})
+// Injected next to dom-query.js (the headless runner evaluates this file too).
+// Every on-screen element tagged by snapshot gets a numbered box labelled with
+// its ref, so the model can point at what it sees in the image. The overlay
+// doesn't take pointer events and is removed right after the capture.
+(() => {
+  const COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2'];
+
+  function isOnScreen(el, rect) {
+    if (rect.width < 2 || rect.height < 2) {
+      return false;
+    }
+    if (rect.bottom <= 0 || rect.right <= 0 || rect.top >= window.innerHeight || rect.left >= window.innerWidth) {
+      return false;
+    }
+    return el.checkVisibility ? el.checkVisibility() : true;
+  }
+
+  // Unique CSS selector: the element's id, else a :nth-of-type path up to the nearest ancestor with one
+  function cssPath(el) {
+    const parts = [];
+    for (let node = el; node && node.nodeType === Node.ELEMENT_NODE; node = node.parentElement) {
+      if (node.id && document.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+        parts.unshift(`#${CSS.escape(node.id)}`);
+        break;
+      }
+      const tag = node.tagName.toLowerCase();
+      const parent = node.parentElement;
+      const sameTag = parent ? Array.from(parent.children).filter(sibling => sibling.tagName === node.tagName) : [];
+      parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(node) + 1})` : tag);
+    }
+    return parts.join(' > ');
+  }
+
+  // Draw the boxes; returns {marks: {ref: selector}} for the elements that got one
+  globalThis.__manusDrawMarks = function (refAttribute, overlayId) {
+    document.getElementById(overlayId)?.remove();
+
+    const overlay = document.createElement('div');
+    overlay.id = overlayId;
+    Object.assign(overlay.style, {
+      position: 'fixed',
+      inset: '0',
+      zIndex: '2147483647',
+      pointerEvents: 'none',
+    });
+
+    const marks = {};
+    let index = 0;
+    for (const el of document.querySelectorAll(`[${refAttribute}]`)) {
+      const rect = el.getBoundingClientRect();
+      if (!isOnScreen(el, rect)) continue;
+
+      const ref = el.getAttribute(refAttribute);
+      const color = COLORS[index++ % COLORS.length];
+      const box = document.createElement('div');
+      Object.assign(box.style, {
+        position: 'absolute',
+        left: `${rect.left}px`,
+        top: `${rect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        border: `2px solid ${color}`,
+        boxSizing: 'border-box',
+      });
+      const label = document.createElement('span');
+      label.textContent = ref;
+      Object.assign(label.style, {
+        position: 'absolute',
+        // Above the box when there's room, so the label doesn't hide the element's text
+        top: rect.top >= 14 ? '-14px' : '0',
+        left: '-2px',
+        padding: '0 3px',
+        background: color,
+        color: '#fff',
+        font: 'bold 11px/14px monospace',
+        whiteSpace: 'nowrap',
+      });
+      box.appendChild(label);
+      overlay.appendChild(box);
+      marks[ref] = cssPath(el);
+    }
+
+    document.documentElement.appendChild(overlay);
+    return { marks };
+  };
+
+  globalThis.__manusClearMarks = function (overlayId) {
+    document.getElementById(overlayId)?.remove();
+  };
+})();
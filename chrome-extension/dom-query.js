@@ -0,0 +1,45 @@
+// DOM query helpers for tool scripts
+// Injected into the target frames before each DOM tool runs (files and funcs
+// injected by the extension share one isolated world per frame).
+// Selectors can pierce open shadow roots with ">>>":
+//   "product-reviews >>> .review-text" = .review-text inside product-reviews' shadow root
+
+// Find all elements matching a (possibly shadow-piercing) selector
+globalThis.__manusQueryAll = function (selector, root = document) {
+  const parts = selector.split('>>>').map(part => part.trim()).filter(Boolean);
+  let scopes = [root];
+
+  for (let i = 0; i < parts.length; i++) {
+    const matches = scopes.flatMap(scope => Array.from(scope.querySelectorAll(parts[i])));
+    if (i === parts.length - 1) {
+      return matches;
+    }
+    // Descend into the shadow roots of the hosts matched so far
+    scopes = matches.map(host => host.shadowRoot).filter(Boolean);
+  }
+  return [];
+};
+
+// Find the first element matching a (possibly shadow-piercing) selector
+// Snapshot refs ([data-manus-ref=...]) are also looked up inside every open shadow root.
+globalThis.__manusQuery = function (selector, root = document) {
+  if (!selector.includes('>>>')) {
+    const element = root.querySelector(selector);
+    if (element || !selector.startsWith('[data-manus-ref=')) {
+      return element;
+    }
+    return findInShadowRoots(selector, root);
+  }
+  return globalThis.__manusQueryAll(selector, root)[0] || null;
+};
+
+function findInShadowRoots(selector, root) {
+  for (const host of root.querySelectorAll('*')) {
+    if (!host.shadowRoot) continue;
+    const element = host.shadowRoot.querySelector(selector) || findInShadowRoots(selector, host.shadowRoot);
+    if (element) {
+      return element;
+    }
+  }
+  return null;
+}
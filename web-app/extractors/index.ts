@@ -6,19 +6,27 @@
  * New extractors are added here when created via the generateExtractor tool.
  */
 
+import type { ExtractedRow } from '../src/lib/field-types';
+
 // Placeholder type for extractor modules
 export interface ExtractorModule {
   config: {
     name: string;
     urlPattern: RegExp;
-    selectors: {
+    selectors?: {
       container: string;
       [key: string]: string;
     };
+    // API extractors read a JSON response instead
+    api?: {
+      url: RegExp;
+      itemsPath: string;
+      fields: Record<string, string>;
+    };
   };
-  extract: (page: unknown) => Promise<Record<string, string>[]>;
+  extract: (page: unknown) => Promise<ExtractedRow[]>;
   matches: (url: string) => boolean;
-  validate: (data: Record<string, string>[]) => { valid: boolean; issues: string[] };
+  validate: (data: ExtractedRow[]) => { valid: boolean; issues: string[] };
 }
 
 // Registry of available extractors
@@ -7,10 +7,11 @@
  *   const data = await extract(page);
  */
 import type { Page } from 'playwright';
+import { parseField, type CurrencyValue } from '../src/lib/field-types';
 
 export interface Pchome24hRtx5090LaptopsData {
   name: string;
-  price: string;
+  price: CurrencyValue | string | null;
   processor: string;
   graphics: string;
   ram: string;
@@ -42,7 +43,7 @@ export async function extract(page: Page): Promise<Pchome24hRtx5090LaptopsData[]
     try {
       data.push({
       name: await item.$eval('.product-title, .product-name', el => el.textContent?.trim() ?? ''),
-      price: await item.$eval('.price, .current-price', el => el.textContent?.trim() ?? ''),
+      price: parseField(await item.$eval('.price, .current-price', el => el.textContent?.trim() ?? ''), { type: 'currency', currency: 'TWD' }) as CurrencyValue | string | null,
       processor: await item.$eval('.spec-processor, .cpu-info', el => el.textContent?.trim() ?? ''),
       graphics: await item.$eval('.gpu-info, .graphics-card', el => el.textContent?.trim() ?? ''),
       ram: await item.$eval('.memory-info, .ram-spec', el => el.textContent?.trim() ?? ''),
@@ -75,7 +76,7 @@ export function validate(data: Pchome24hRtx5090LaptopsData[]): { valid: boolean;
 
   data.forEach((item, index) => {
     const emptyFields = Object.entries(item)
-      .filter(([_, value]) => !value || String(value).trim() === '')
+      .filter(([_, value]) => value === null || value === undefined || String(value).trim() === '')
       .map(([key]) => key);
 
     if (emptyFields.length > 0) {
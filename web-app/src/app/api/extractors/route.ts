@@ -0,0 +1,19 @@
+import { loadManifest, getExtractorByName } from '@/lib/extractor-manifest';
+
+/**
+ * List saved extractors, or get one by name (?name=...)
+ */
+export async function GET(req: Request) {
+  const name = new URL(req.url).searchParams.get('name');
+  const manifest = await loadManifest();
+
+  if (!name) {
+    return Response.json(manifest);
+  }
+
+  const entry = getExtractorByName(manifest, name);
+  if (!entry) {
+    return Response.json({ error: `Extractor not found: ${name}` }, { status: 404 });
+  }
+  return Response.json(entry);
+}
@@ -0,0 +1,34 @@
+import { runSavedExtractor } from '@/lib/headless-browser';
+import { loadManifest, getExtractorByName } from '@/lib/extractor-manifest';
+import { buildExtractionReport } from '@/lib/extraction-validator';
+
+export const maxDuration = 120;
+
+/**
+ * Run a saved extractor in the server-side headless browser
+ * Body: { name: string; url?: string }
+ */
+export async function POST(req: Request) {
+  const { name, url } = await req.json();
+
+  if (!name) {
+    return Response.json({ success: false, error: 'Name is required' }, { status: 400 });
+  }
+
+  const manifest = await loadManifest();
+  const entry = getExtractorByName(manifest, name);
+  if (!entry) {
+    return Response.json({ success: false, error: `Extractor not found: ${name}` }, { status: 404 });
+  }
+
+  const result = await runSavedExtractor(entry.name, url);
+  if (!result.success || !result.data) {
+    return Response.json(result, { status: 500 });
+  }
+
+  return Response.json({
+    ...buildExtractionReport({ data: result.data, expectedColumns: entry.fields, schema: entry.schema }),
+    url: result.url,
+    data: result.data,
+  });
+}
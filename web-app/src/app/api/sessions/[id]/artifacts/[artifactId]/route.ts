@@ -0,0 +1,25 @@
+import { readArtifact } from '@/lib/artifact-store';
+
+interface RouteContext {
+  params: Promise<{ id: string; artifactId: string }>;
+}
+
+/**
+ * Get a saved artifact
+ * Images open inline; archives (PDF, MHTML) download under their artifact id.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { id, artifactId } = await params;
+  const artifact = await readArtifact(id, artifactId);
+
+  if (!artifact) {
+    return Response.json({ error: `Artifact not found: ${artifactId}` }, { status: 404 });
+  }
+  return new Response(new Uint8Array(artifact.data), {
+    headers: {
+      'Content-Type': artifact.mediaType,
+      'Content-Disposition': artifact.mediaType.startsWith('image/') ? 'inline' : `attachment; filename="${artifactId}"`,
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  });
+}
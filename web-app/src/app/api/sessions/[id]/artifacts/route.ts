@@ -0,0 +1,28 @@
+import { saveArtifact } from '@/lib/artifact-store';
+import { isValidSessionId } from '@/lib/session-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Save a file captured by the client (extension screenshot or page archive)
+ * Body: { dataUrl, name? }
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: `Invalid session id: ${id}` }, { status: 400 });
+  }
+
+  const { dataUrl, name } = await req.json();
+  if (typeof dataUrl !== 'string') {
+    return Response.json({ error: 'Expected a dataUrl' }, { status: 400 });
+  }
+
+  try {
+    return Response.json(await saveArtifact(id, dataUrl, typeof name === 'string' ? name : undefined));
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+  }
+}
@@ -0,0 +1,58 @@
+import { deleteArtifacts } from '@/lib/artifact-store';
+import { closeHeadlessSession } from '@/lib/headless-browser';
+import { appendSessionEvent, deleteSession, isValidSessionId, readSession } from '@/lib/session-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Get a session's full transcript (turns and tool calls in order)
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const events = await readSession(id);
+
+  if (!events) {
+    return Response.json({ error: `Session not found: ${id}` }, { status: 404 });
+  }
+  return Response.json({ id, events });
+}
+
+/**
+ * Record a tool call executed by the client
+ * Body: ToolCallEvent
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: `Invalid session id: ${id}` }, { status: 400 });
+  }
+
+  let event;
+  try {
+    event = await req.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+  if (event?.type !== 'tool' || typeof event.toolName !== 'string') {
+    return Response.json({ error: 'Expected a tool event' }, { status: 400 });
+  }
+
+  await appendSessionEvent(id, event);
+  return Response.json({ success: true });
+}
+
+/**
+ * Delete a session, its artifacts and its headless browser tabs
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await deleteSession(id))) {
+    return Response.json({ error: `Session not found: ${id}` }, { status: 404 });
+  }
+  await deleteArtifacts(id);
+  await closeHeadlessSession(id);
+  return Response.json({ success: true });
+}
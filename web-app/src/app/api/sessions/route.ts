@@ -0,0 +1,8 @@
+import { listSessions } from '@/lib/session-store';
+
+/**
+ * List recorded chat sessions
+ */
+export async function GET() {
+  return Response.json({ sessions: await listSessions() });
+}
@@ -3,6 +3,7 @@
 import { useState, useDeferredValue, useMemo, useEffect } from 'react';
 import { cn, truncateUrl } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import type { ConsoleEntry } from '@/hooks/use-extension';
 
 interface BrowserPreviewProps {
   html: string | null;
@@ -14,9 +15,19 @@ interface BrowserPreviewProps {
   liveScreenshot?: string | null;
   onStartLivePreview?: () => Promise<{ success: boolean; error?: string }>;
   onStopLivePreview?: () => Promise<{ success: boolean; error?: string }>;
+  consoleEntries?: ConsoleEntry[];
+  onClearConsole?: () => void;
 }
 
-type Tab = 'live' | 'html';
+type Tab = 'live' | 'html' | 'console';
+
+const ERROR_LEVELS = new Set(['error', 'assert', 'exception']);
+
+function consoleLevelClass(level: string): string {
+  if (ERROR_LEVELS.has(level)) return 'text-[var(--error)] bg-[var(--error)]/5';
+  if (level === 'warning') return 'text-[var(--warning)] bg-[var(--warning)]/5';
+  return 'text-[var(--muted)]';
+}
 
 export function BrowserPreview({
   html,
@@ -28,6 +39,8 @@ export function BrowserPreview({
   liveScreenshot,
   onStartLivePreview,
   onStopLivePreview,
+  consoleEntries = [],
+  onClearConsole,
 }: BrowserPreviewProps) {
   const [activeTab, setActiveTab] = useState<Tab>('live');
   const [zoomLevel, setZoomLevel] = useState(100);
@@ -72,6 +85,7 @@ export function BrowserPreview({
   }, [html, deferredShowFullHtml]);
 
   const isLoadingFullHtml = showFullHtml !== deferredShowFullHtml;
+  const consoleErrorCount = consoleEntries.filter(entry => ERROR_LEVELS.has(entry.level)).length;
 
   return (
     <div className="flex flex-col h-full bg-[var(--card)] rounded-xl border border-[var(--card-border)] overflow-hidden">
@@ -169,9 +183,34 @@ export function BrowserPreview({
           </svg>
           HTML
         </button>
+        <button
+          onClick={() => setActiveTab('console')}
+          className={cn(
+            'flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors',
+            activeTab === 'console'
+              ? 'bg-[var(--accent)]/10 text-[var(--accent)]'
+              : 'text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-border)]'
+          )}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          Console
+          {consoleErrorCount > 0 && (
+            <span className="px-1.5 rounded-full bg-[var(--error)]/15 text-[var(--error)] text-[10px]">
+              {consoleErrorCount}
+            </span>
+          )}
+        </button>
 
         <div className="flex-1" />
 
+        {activeTab === 'console' && consoleEntries.length > 0 && onClearConsole && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onClearConsole}>
+            Clear
+          </Button>
+        )}
+
         {/* Zoom controls for live view */}
         {activeTab === 'live' && liveScreenshot && (
           <div className="flex items-center gap-1">
@@ -319,6 +358,40 @@ export function BrowserPreview({
               </p>
             </div>
           )
+        ) : activeTab === 'console' ? (
+          consoleEntries.length > 0 ? (
+            <div className="font-mono text-xs divide-y divide-[var(--card-border)]">
+              {consoleEntries.map((entry, index) => (
+                <div key={index} className={cn('flex gap-2 px-3 py-1.5', consoleLevelClass(entry.level))}>
+                  <span className="shrink-0 opacity-60">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                  <span className="flex-1 whitespace-pre-wrap break-all">{entry.text}</span>
+                  {entry.url && (
+                    <span className="shrink-0 opacity-60 truncate max-w-[30%]" title={`${entry.url}:${entry.line ?? ''}`}>
+                      {truncateUrl(entry.url, 30)}{entry.line ? `:${entry.line}` : ''}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full text-center p-8">
+              <div className="w-16 h-16 rounded-2xl bg-[var(--card-border)] flex items-center justify-center mb-4">
+                <svg className="w-8 h-8 text-[var(--muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </div>
+              <h3 className="text-sm font-medium text-[var(--foreground)] mb-1">
+                No Console Messages
+              </h3>
+              <p className="text-xs text-[var(--muted)] max-w-xs">
+                {connected
+                  ? 'Console messages and JavaScript errors of the target tab appear here while live preview runs'
+                  : 'Connect the browser extension to see console messages'}
+              </p>
+            </div>
+          )
         ) : null}
       </div>
 
@@ -1,87 +1,142 @@
 'use client';
 
 import { useChat } from '@ai-sdk/react';
-import { DefaultChatTransport } from 'ai';
-import { useCallback, useMemo, useState, useRef } from 'react';
+import { DefaultChatTransport, type UIMessage } from 'ai';
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { MessageList } from './message-list';
 import { ChatInput } from './chat-input';
 import { BrowserPreview } from './browser-preview';
 import { TokenUsageDisplay } from './token-usage';
+import { DialogPrompt } from './dialog-prompt';
 import { useExtension } from '@/hooks/use-extension';
 import type { TokenUsage } from '@/lib/token-cost';
+import { truncateToolResult } from '@/lib/tool-result';
+import { runExtractorInTab, crawlInTab, type RunExtractorInput, type CrawlInput } from '@/lib/extractor-runner';
+import { formatNetworkResult } from '@/lib/network-capture';
+import { attachArchive, attachScreenshot, recordToolCall } from '@/lib/session-client';
+import {
+  blockedResult,
+  collectInjectionFindings,
+  evaluateActionPolicy,
+  wrapUntrusted,
+} from '@/lib/prompt-injection';
+import type { ChatMessageMetadata } from '@/types/chat';
+import { DEFAULT_BUDGET, type AgentBudget } from '@/lib/agent-budget';
+import { deniedResult, needsApproval, type ApprovalMode, type PendingApproval } from '@/lib/approval';
+import type { DialogPolicy } from '@/lib/dialog-policy';
 
-// Token optimization: Preprocess HTML and limit content size
-const MAX_CONTENT_CHARS = 6000; // ~1500 tokens - balance between speed and quality
-
-// Strip only truly useless HTML elements (conservative approach)
-const preprocessHtml = (html: string): string => {
-  // Only remove elements that NEVER contain useful product data
-  let cleaned = html
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-    .replace(/<svg\b[^<]*(?:(?!<\/svg>)<[^<]*)*<\/svg>/gi, '')
-    .replace(/<noscript\b[^<]*(?:(?!<\/noscript>)<[^<]*)*<\/noscript>/gi, '')
-    .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-    .replace(/<!--[\s\S]*?-->/g, '') // Remove comments
-    // Remove data attributes and event handlers to reduce noise
-    .replace(/\s(data-[a-z-]+|on[a-z]+)="[^"]*"/gi, '')
-    .replace(/\s(class|id)="[^"]*"/gi, '') // Remove class/id attributes
-    .replace(/<[^>]+>/g, ' ') // Strip all HTML tags, keep text
-    .replace(/\s+/g, ' ') // Collapse whitespace
-    .trim();
-  return cleaned;
-};
-
-const truncateToolResult = (result: unknown): unknown => {
-  if (typeof result === 'string') {
-    // Preprocess if it looks like HTML
-    let processed = result;
-    if (result.includes('<') && result.includes('>')) {
-      processed = preprocessHtml(result);
-    }
-    if (processed.length > MAX_CONTENT_CHARS) {
-      return processed.slice(0, MAX_CONTENT_CHARS) + `\n\n[... truncated ...]`;
-    }
-    return processed;
-  }
-  if (result && typeof result === 'object') {
-    const obj = result as Record<string, unknown>;
-    const truncated: Record<string, unknown> = { ...obj };
-    for (const key of ['data', 'content', 'html', 'text', 'result']) {
-      if (typeof truncated[key] === 'string') {
-        let val = truncated[key] as string;
-        // Preprocess HTML content
-        if (val.includes('<') && val.includes('>')) {
-          val = preprocessHtml(val);
-        }
-        if (val.length > MAX_CONTENT_CHARS) {
-          truncated[key] = val.slice(0, MAX_CONTENT_CHARS) + `\n\n[... truncated ...]`;
-        } else {
-          truncated[key] = val;
-        }
-      }
-    }
-    return truncated;
-  }
-  return result;
-};
+// Tools with a server-side execute function - never forwarded to the extension
+const SERVER_TOOLS = new Set(['extractData', 'extractors', 'generateExtractor']);
 
 export function ChatContainer() {
   const extension = useExtension();
   const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
+  const [model, setModel] = useState<string | undefined>(undefined);
+  const [budget, setBudget] = useState<AgentBudget>(DEFAULT_BUDGET);
+
+  // Read at request time, so follow-up requests of a task share its start time
+  const budgetRef = useRef(budget);
+  budgetRef.current = budget;
+  const taskStartedAtRef = useRef<number>(Date.now());
+  // Without the extension, the server runs browser tools in a headless browser
+  const extensionConnectedRef = useRef(extension.connected);
+  extensionConnectedRef.current = extension.connected;
+  // Page the extension is on - lets the server apply the domain policy to click/type/extract
+  const currentUrlRef = useRef(extension.currentUrl);
+  currentUrlRef.current = extension.currentUrl;
+  // Latest messages for the content policy (onToolCall is created once)
+  const messagesRef = useRef<UIMessage[]>([]);
+
+  // Approval mode: click/type/navigate wait for the user's decision
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>('auto');
+  const approvalModeRef = useRef(approvalMode);
+  approvalModeRef.current = approvalMode;
+  const [pendingApprovals, setPendingApprovals] = useState<Record<string, PendingApproval>>({});
+  const approvalResolversRef = useRef(new Map<string, (approved: boolean) => void>());
+
+  // Show an approve/deny card for a tool call and wait for the decision
+  const requestApproval = useCallback(async (toolCallId: string, toolName: string, input: Record<string, unknown>) => {
+    setPendingApprovals(prev => ({
+      ...prev,
+      [toolCallId]: { toolName, input, screenshot: null, previewLoading: true },
+    }));
+    const decision = new Promise<boolean>(resolve => approvalResolversRef.current.set(toolCallId, resolve));
+
+    // Preview: the target element outlined in the tab the action runs on (whole page for
+    // navigate, the dragged element for dragAndDrop)
+    extension.executeTool('highlightElement', {
+      selector: input.selector ?? input.source,
+      ref: input.ref ?? input.sourceRef,
+      frame: input.frame,
+      tabId: input.tabId,
+    }).then(preview => {
+      setPendingApprovals(prev => prev[toolCallId]
+        ? {
+          ...prev,
+          [toolCallId]: {
+            ...prev[toolCallId],
+            screenshot: preview.screenshot ?? null,
+            elementFound: preview.found,
+            previewLoading: false,
+          },
+        }
+        : prev
+      );
+    });
+
+    const approved = await decision;
+    approvalResolversRef.current.delete(toolCallId);
+    setPendingApprovals(prev => {
+      const next = { ...prev };
+      delete next[toolCallId];
+      return next;
+    });
+    return approved;
+  }, [extension.executeTool]);
+
+  const handleApprovalDecision = useCallback((toolCallId: string, approved: boolean) => {
+    approvalResolversRef.current.get(toolCallId)?.(approved);
+  }, []);
+
+  // How the page's alert/confirm/beforeunload dialogs are answered (extension and headless runs)
+  const [dialogPolicy, setDialogPolicy] = useState<DialogPolicy>('ask');
+  const dialogPolicyRef = useRef(dialogPolicy);
+  dialogPolicyRef.current = dialogPolicy;
+
+  // The extension keeps the policy in memory - send it again whenever it (re)connects
+  useEffect(() => {
+    if (extension.connected) {
+      extension.executeTool('setDialogPolicy', { policy: dialogPolicy });
+    }
+  }, [extension.connected, extension.executeTool, dialogPolicy]);
+
+  const handleDialogAnswer = useCallback((accept: boolean, promptText?: string) => {
+    extension.executeTool('handleDialog', { accept, promptText });
+  }, [extension.executeTool]);
 
   const transport = useMemo(() => new DefaultChatTransport({
     api: '/api/chat',
+    body: () => ({
+      budget: { ...budgetRef.current, startedAt: taskStartedAtRef.current },
+      extensionConnected: extensionConnectedRef.current,
+      currentUrl: currentUrlRef.current,
+      dialogPolicy: dialogPolicyRef.current,
+    }),
   }), []);
 
   // Memoized callback for auto-send logic to prevent unnecessary re-renders
-  const sendAutomaticallyWhen = useCallback(({ messages }: { messages: Array<{ role: string; parts?: Array<{ type: string; state?: string; output?: unknown }> }> }) => {
+  const sendAutomaticallyWhen = useCallback(({ messages }: { messages: Array<{ role: string; metadata?: unknown; parts?: Array<{ type: string; state?: string; output?: unknown }> }> }) => {
     const lastMessage = messages[messages.length - 1];
 
     if (!lastMessage || lastMessage.role !== 'assistant') {
       return false;
     }
 
+    // The agent has stopped (budget, tool error, user abort) - don't continue the task
+    if ((lastMessage.metadata as ChatMessageMetadata | undefined)?.termination) {
+      return false;
+    }
+
     const parts = lastMessage.parts || [];
 
     // Tool parts have type like "tool-navigate", "tool-click", etc.
@@ -111,19 +166,100 @@ export function ChatContainer() {
     return hasAllResults && !!endsWithToolResult && !hasPendingTools;
   }, []);
 
-  const { messages, sendMessage, status, error, addToolOutput } = useChat({
+  const { id: chatId, messages, sendMessage, setMessages, stop, status, error, addToolOutput } = useChat({
     transport,
     sendAutomaticallyWhen,
     onToolCall: async ({ toolCall }) => {
-      try {
-        // Execute tool via extension
-        const rawResult = await extension.executeTool(
+      // Executed on the server - its output arrives with the stream
+      if (SERVER_TOOLS.has(toolCall.toolName) || !extensionConnectedRef.current) {
+        return;
+      }
+
+      const startedAt = Date.now();
+      const record = (output: unknown) => {
+        const result = output as { success?: boolean; error?: string } | undefined;
+        recordToolCall(chatId, {
+          at: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          toolCallId: toolCall.toolCallId,
+          toolName: toolCall.toolName,
+          input: toolCall.input,
+          output,
+          success: result?.success !== false,
+          error: result?.error,
+        });
+      };
+
+      // Content policy: navigate/type right after suspicious page content is flagged or blocked
+      const decision = evaluateActionPolicy(
+        toolCall.toolName,
+        toolCall.input,
+        collectInjectionFindings(messagesRef.current)
+      );
+      if (decision.action === 'block') {
+        const output = blockedResult(decision.reason);
+        record(output);
+        addToolOutput({ tool: toolCall.toolName, toolCallId: toolCall.toolCallId, output });
+        return;
+      }
+
+      // Approval mode: wait for the user before acting on their real browser
+      if (needsApproval(approvalModeRef.current, toolCall.toolName)) {
+        const approved = await requestApproval(
+          toolCall.toolCallId,
           toolCall.toolName,
           toolCall.input as Record<string, unknown>
         );
+        if (!approved) {
+          const output = deniedResult(toolCall.toolName);
+          record(output);
+          addToolOutput({ tool: toolCall.toolName, toolCallId: toolCall.toolCallId, output });
+          return;
+        }
+      }
+
+      try {
+        // Execute tool via extension (extractor tools resolve the stored selectors first,
+        // network response bodies are parsed here)
+        let rawResult: unknown;
+        if (toolCall.toolName === 'runExtractor') {
+          rawResult = await runExtractorInTab(extension.executeTool, toolCall.input as RunExtractorInput);
+        } else if (toolCall.toolName === 'crawl') {
+          rawResult = await crawlInTab(extension.executeTool, toolCall.input as CrawlInput, toolCall.toolCallId);
+        } else if (toolCall.toolName === 'scrollUntil') {
+          // Runs for up to timeoutMs, plus the last settle and harvest
+          const input = toolCall.input as { timeoutMs?: number; settleMs?: number };
+          rawResult = await extension.executeTool(
+            'scrollUntil',
+            toolCall.input as Record<string, unknown>,
+            (input.timeoutMs ?? 30000) + (input.settleMs ?? 800) + 10000
+          );
+        } else if (toolCall.toolName === 'networkRequests') {
+          const input = toolCall.input as { path?: string; offset?: number };
+          rawResult = formatNetworkResult(
+            await extension.executeTool('networkRequests', toolCall.input as Record<string, unknown>),
+            input.path,
+            input.offset
+          );
+        } else {
+          rawResult = await extension.executeTool(
+            toolCall.toolName,
+            toolCall.input as Record<string, unknown>
+          );
+        }
+        if (toolCall.toolName === 'screenshot') {
+          // Saved with the session so the image stays in the chat
+          rawResult = await attachScreenshot(chatId, toolCall.toolName, rawResult);
+        } else if (toolCall.toolName === 'archivePage') {
+          rawResult = await attachArchive(chatId, rawResult);
+        }
 
         // Token optimization: Truncate large results (especially from extract tool)
-        const result = truncateToolResult(rawResult);
+        const truncated = truncateToolResult(rawResult);
+        const result = decision.action === 'flag' && truncated && typeof truncated === 'object'
+          ? { ...truncated, policyWarning: decision.reason }
+          : truncated;
+        record(result);
 
         // Use addToolOutput to add the result (don't await to avoid deadlock)
         addToolOutput({
@@ -135,37 +271,62 @@ export function ChatContainer() {
         if (process.env.NODE_ENV === 'development') {
           console.error('[ChatContainer] Tool execution error:', err);
         }
+        const output = { success: false, error: err instanceof Error ? err.message : 'Tool execution failed' };
+        record(output);
         addToolOutput({
           tool: toolCall.toolName,
           toolCallId: toolCall.toolCallId,
-          output: { success: false, error: err instanceof Error ? err.message : 'Tool execution failed' },
+          output,
         });
       }
     },
-    onFinish: ({ message }) => {
+    onFinish: ({ message, isAbort }) => {
+      if (isAbort) {
+        // Mark the aborted message so the task isn't continued automatically
+        setMessages(prev => prev.map(m => m.id === message.id
+          ? { ...m, metadata: { ...(m.metadata as ChatMessageMetadata | undefined), termination: { reason: 'user-abort' } } }
+          : m
+        ));
+      }
+
       // Extract usage from message metadata
-      const metadata = message.metadata as { usage?: TokenUsage } | undefined;
+      const metadata = message.metadata as ChatMessageMetadata | undefined;
       if (metadata?.usage) {
         setTokenUsage(metadata.usage);
       }
+      if (metadata?.model) {
+        setModel(metadata.model);
+      }
     },
   });
 
+  messagesRef.current = messages;
+
+  // Stopping the agent denies any action still waiting for approval
+  const handleStop = useCallback(() => {
+    for (const resolve of approvalResolversRef.current.values()) {
+      resolve(false);
+    }
+    stop();
+  }, [stop]);
+
   const isLoading = status === 'streaming' || status === 'submitted';
 
   // Handle manual HTML extraction
   const handleExtract = useCallback(async () => {
     const result = await extension.extract();
     if (result.success && result.data) {
+      taskStartedAtRef.current = Date.now();
       sendMessage({
-        text: `I extracted the HTML from the current page:\n\n\`\`\`html\n${(result.data as string).slice(0, 5000)}\n\`\`\`\n\nCan you analyze this page?`,
+        text: `I extracted the HTML from the current page:\n\n\`\`\`html\n${wrapUntrusted((result.data as string).slice(0, 5000))}\n\`\`\`\n\nCan you analyze this page?`,
       });
     }
   }, [extension, sendMessage]);
 
-  // Handle sending a message
+  // Handle sending a message (starts a new task)
   const handleSend = useCallback(
     (message: string) => {
+      taskStartedAtRef.current = Date.now();
       sendMessage({
         text: message,
       });
@@ -201,20 +362,43 @@ export function ChatContainer() {
                 extension.connected ? 'bg-[var(--success)] animate-pulse' : 'bg-[var(--error)]'
               }`}
             />
-            {extension.connected ? 'Extension Connected' : 'Extension Disconnected'}
+            {extension.connected ? 'Extension Connected' : 'Extension Disconnected · Headless'}
           </div>
         </div>
 
         {/* Messages */}
-        <MessageList messages={messages} isLoading={isLoading} onSuggestionClick={handleSend} />
+        <MessageList
+          messages={messages}
+          isLoading={isLoading}
+          onSuggestionClick={handleSend}
+          crawlProgress={extension.crawlProgress}
+          pendingApprovals={pendingApprovals}
+          onApprovalDecision={handleApprovalDecision}
+        />
+
+        {/* Dialog waiting for an answer on the target tab */}
+        {extension.openDialog && (
+          <DialogPrompt
+            key={`${extension.openDialog.tabId}-${extension.openDialog.openedAt}`}
+            dialog={extension.openDialog}
+            onAnswer={handleDialogAnswer}
+          />
+        )}
 
         {/* Token Usage */}
-        <TokenUsageDisplay usage={tokenUsage} />
+        <TokenUsageDisplay usage={tokenUsage} model={model} />
 
         {/* Input */}
         <ChatInput
           onSend={handleSend}
           onExtract={handleExtract}
+          onStop={handleStop}
+          budget={budget}
+          onBudgetChange={setBudget}
+          approvalMode={approvalMode}
+          onApprovalModeChange={setApprovalMode}
+          dialogPolicy={dialogPolicy}
+          onDialogPolicyChange={setDialogPolicy}
           isLoading={isLoading}
           extensionConnected={extension.connected}
         />
@@ -232,6 +416,8 @@ export function ChatContainer() {
           liveScreenshot={extension.liveScreenshot}
           onStartLivePreview={extension.startLivePreview}
           onStopLivePreview={extension.stopLivePreview}
+          consoleEntries={extension.consoleEntries}
+          onClearConsole={extension.clearConsole}
         />
       </div>
     </div>
@@ -2,10 +2,20 @@
 
 import { useState, useRef, KeyboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
+import { BUDGET_LIMITS, type AgentBudget } from '@/lib/agent-budget';
+import type { ApprovalMode } from '@/lib/approval';
+import { DIALOG_POLICIES, DIALOG_POLICY_LABELS, isDialogPolicy, type DialogPolicy } from '@/lib/dialog-policy';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
   onExtract?: () => void;
+  onStop?: () => void;
+  budget?: AgentBudget;
+  onBudgetChange?: (budget: AgentBudget) => void;
+  approvalMode?: ApprovalMode;
+  onApprovalModeChange?: (mode: ApprovalMode) => void;
+  dialogPolicy?: DialogPolicy;
+  onDialogPolicyChange?: (policy: DialogPolicy) => void;
   isLoading?: boolean;
   disabled?: boolean;
   extensionConnected?: boolean;
@@ -14,6 +24,13 @@ interface ChatInputProps {
 export function ChatInput({
   onSend,
   onExtract,
+  onStop,
+  budget,
+  onBudgetChange,
+  approvalMode,
+  onApprovalModeChange,
+  dialogPolicy,
+  onDialogPolicyChange,
   isLoading,
   disabled,
   extensionConnected,
@@ -62,6 +79,68 @@ export function ChatInput({
           </svg>
           Extract HTML
         </Button>
+
+        {/* Approval mode: click/type/navigate wait for approve/deny */}
+        {approvalMode && onApprovalModeChange && (
+          <Button
+            variant={approvalMode === 'approve' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onApprovalModeChange(approvalMode === 'approve' ? 'auto' : 'approve')}
+            aria-pressed={approvalMode === 'approve'}
+            title="Ask before clicking, typing or navigating in your browser"
+            className="gap-1.5"
+          >
+            <span aria-hidden="true">{approvalMode === 'approve' ? '✋' : '⚡'}</span>
+            {approvalMode === 'approve' ? 'Approve actions' : 'Auto actions'}
+          </Button>
+        )}
+
+        {/* How alert/confirm/beforeunload dialogs of the page are answered */}
+        {dialogPolicy && onDialogPolicyChange && (
+          <select
+            value={dialogPolicy}
+            onChange={(e) => isDialogPolicy(e.target.value) && onDialogPolicyChange(e.target.value)}
+            aria-label="JavaScript dialog policy"
+            title="Answer alert, confirm and leave-page dialogs automatically, or ask in the chat"
+            className="rounded-md border border-[var(--card-border)] bg-[var(--card)] px-1.5 py-1 text-xs text-[var(--foreground)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+          >
+            {DIALOG_POLICIES.map(policy => (
+              <option key={policy} value={policy}>{DIALOG_POLICY_LABELS[policy]}</option>
+            ))}
+          </select>
+        )}
+
+        {/* Per-task step and time budget */}
+        {budget && onBudgetChange && (
+          <div className="ml-auto flex items-center gap-2 text-[10px] text-[var(--muted)]">
+            <label className="flex items-center gap-1">
+              Steps
+              <input
+                type="number"
+                min={BUDGET_LIMITS.maxSteps.min}
+                max={BUDGET_LIMITS.maxSteps.max}
+                value={budget.maxSteps}
+                onChange={(e) => onBudgetChange({ ...budget, maxSteps: Number(e.target.value) || BUDGET_LIMITS.maxSteps.min })}
+                disabled={isLoading}
+                aria-label="Maximum steps per task"
+                className="w-12 rounded-md border border-[var(--card-border)] bg-[var(--card)] px-1.5 py-1 text-[var(--foreground)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Time (s)
+              <input
+                type="number"
+                min={BUDGET_LIMITS.maxDurationMs.min / 1000}
+                max={BUDGET_LIMITS.maxDurationMs.max / 1000}
+                value={Math.round(budget.maxDurationMs / 1000)}
+                onChange={(e) => onBudgetChange({ ...budget, maxDurationMs: (Number(e.target.value) || 0) * 1000 })}
+                disabled={isLoading}
+                aria-label="Maximum time per task in seconds"
+                className="w-14 rounded-md border border-[var(--card-border)] bg-[var(--card)] px-1.5 py-1 text-[var(--foreground)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+              />
+            </label>
+          </div>
+        )}
       </div>
 
       {/* Input area */}
@@ -86,14 +165,18 @@ export function ChatInput({
           />
 
           <Button
-            onClick={handleSubmit}
-            disabled={!input.trim() || isLoading || disabled}
+            onClick={isLoading && onStop ? onStop : handleSubmit}
+            disabled={isLoading ? !onStop : !input.trim() || disabled}
             variant="accent"
             size="icon"
             className="absolute right-2 bottom-2 h-8 w-8"
-            aria-label={isLoading ? 'Sending message' : 'Send message'}
+            aria-label={isLoading ? (onStop ? 'Stop agent' : 'Sending message') : 'Send message'}
           >
-            {isLoading ? (
+            {isLoading && onStop ? (
+              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+            ) : isLoading ? (
               <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24" aria-hidden="true">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
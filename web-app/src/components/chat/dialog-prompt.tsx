@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { BrowserDialog } from '@/lib/dialog-policy';
+
+interface DialogPromptProps {
+  dialog: BrowserDialog;
+  onAnswer: (accept: boolean, promptText?: string) => void;
+}
+
+const dialogTitles: Record<BrowserDialog['type'], string> = {
+  alert: 'The page shows an alert',
+  confirm: 'The page asks for confirmation',
+  prompt: 'The page asks for input',
+  beforeunload: 'The page asks before leaving it',
+};
+
+// Dialog left open by the 'ask' policy - it blocks the page until answered here, in the tab, or by the agent
+export function DialogPrompt({ dialog, onAnswer }: DialogPromptProps) {
+  const [promptText, setPromptText] = useState(dialog.defaultPrompt ?? '');
+
+  return (
+    <div className="mx-4 mb-2 rounded-lg border border-[var(--warning)]/40 bg-[var(--warning)]/5 p-3 text-xs">
+      <p className="font-medium text-[var(--warning)] mb-1">
+        <span aria-hidden="true">💬 </span>
+        {dialogTitles[dialog.type] ?? 'The page opened a dialog'}
+      </p>
+      {dialog.message && (
+        <p className="mb-2 whitespace-pre-wrap break-words text-[var(--foreground)]">{dialog.message}</p>
+      )}
+      <p className="mb-2 truncate text-[var(--muted)]">{dialog.url}</p>
+
+      {dialog.type === 'prompt' && (
+        <input
+          value={promptText}
+          onChange={(e) => setPromptText(e.target.value)}
+          aria-label="Answer to the page's prompt"
+          className="mb-2 w-full rounded-md border border-[var(--card-border)] bg-[var(--card)] px-2 py-1 text-[var(--foreground)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+        />
+      )}
+
+      <div className="flex gap-2 justify-end">
+        {dialog.type !== 'alert' && (
+          <Button variant="outline" size="sm" onClick={() => onAnswer(false)}>
+            {dialog.type === 'beforeunload' ? 'Stay' : 'Cancel'}
+          </Button>
+        )}
+        <Button
+          variant="accent"
+          size="sm"
+          onClick={() => onAnswer(true, dialog.type === 'prompt' ? promptText : undefined)}
+        >
+          {dialog.type === 'beforeunload' ? 'Leave' : 'OK'}
+        </Button>
+      </div>
+    </div>
+  );
+}
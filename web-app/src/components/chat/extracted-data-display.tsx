@@ -2,9 +2,10 @@
 
 import { useState, useMemo } from 'react';
 import { parseExtractedData } from '@/lib/data-parser';
-import { downloadAsCSV, downloadAsJSON } from '@/lib/download-utils';
+import { downloadAsCSV, downloadAsJSON, downloadFromUrl } from '@/lib/download-utils';
 import { DataTable } from '@/components/ui/data-table';
 import { cn } from '@/lib/utils';
+import type { ExtractionSchema } from '@/lib/field-types';
 
 interface ValidationIssue {
   type: string;
@@ -17,10 +18,26 @@ interface ValidationInfo {
   issues: ValidationIssue[];
 }
 
+interface CrawlProgressInfo {
+  page: number;
+  maxPages: number;
+  done: boolean;
+}
+
+// Page archive (archivePage) saved with the session - evidence of what the page showed
+export interface PageArchiveInfo {
+  url: string;
+  format: string;
+  capturedAt?: string;
+}
+
 interface ExtractedDataDisplayProps {
   data: unknown;
   toolName: string;
   validation?: ValidationInfo;
+  progress?: CrawlProgressInfo;
+  schema?: ExtractionSchema;
+  archive?: PageArchiveInfo;
 }
 
 function DownloadButton({
@@ -66,6 +83,22 @@ function DownloadButton({
   );
 }
 
+function ArchiveDownloadButton({ archive }: { archive: PageArchiveInfo }) {
+  const timestamp = (archive.capturedAt ?? new Date().toISOString()).slice(0, 10);
+  return (
+    <DownloadButton
+      onClick={() => downloadFromUrl(archive.url, `page-archive-${timestamp}.${archive.format}`)}
+      variant="default"
+      icon={
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+        </svg>
+      }
+      label={archive.format.toUpperCase()}
+    />
+  );
+}
+
 function RowCountBadge({ count }: { count: number }) {
   return (
     <div className="relative inline-flex items-center">
@@ -85,6 +118,20 @@ function RowCountBadge({ count }: { count: number }) {
   );
 }
 
+function CrawlProgressBadge({ progress }: { progress: CrawlProgressInfo }) {
+  return (
+    <span className={cn(
+      'inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full',
+      'bg-[var(--background)] text-[var(--muted)] border border-[var(--card-border)]'
+    )}>
+      {!progress.done && (
+        <span className="w-2 h-2 rounded-full border border-current border-t-transparent animate-spin" />
+      )}
+      Page {progress.page}/{progress.maxPages}
+    </span>
+  );
+}
+
 function ValidationWarnings({ issues }: { issues: ValidationIssue[] }) {
   if (!issues || issues.length === 0) return null;
 
@@ -176,15 +223,15 @@ function ValidationStatusBadge({ validation }: { validation: ValidationInfo }) {
   );
 }
 
-export function ExtractedDataDisplay({ data, toolName, validation }: ExtractedDataDisplayProps) {
+export function ExtractedDataDisplay({ data, toolName, validation, progress, schema, archive }: ExtractedDataDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const parsedData = useMemo(() => parseExtractedData(data), [data]);
+  const parsedData = useMemo(() => parseExtractedData(data, schema), [data, schema]);
 
   const handleDownloadCSV = () => {
     if (parsedData.type === 'table' && parsedData.headers && parsedData.rows) {
       const timestamp = new Date().toISOString().slice(0, 10);
-      downloadAsCSV(parsedData.headers, parsedData.rows, `${toolName}-${timestamp}`);
+      downloadAsCSV(parsedData.headers, parsedData.rows, `${toolName}-${timestamp}`, parsedData.columnTypes);
     }
   };
 
@@ -234,11 +281,13 @@ export function ExtractedDataDisplay({ data, toolName, validation }: ExtractedDa
               <span className="text-[10px] text-[var(--muted)] uppercase tracking-wide">Structured Table</span>
             </div>
             <RowCountBadge count={rowCount} />
+            {progress && <CrawlProgressBadge progress={progress} />}
             {validation && <ValidationStatusBadge validation={validation} />}
           </div>
 
           {/* Right side - Download buttons */}
           <div className="flex items-center gap-2">
+            {archive && <ArchiveDownloadButton archive={archive} />}
             <DownloadButton
               onClick={handleDownloadCSV}
               variant="default"
@@ -271,6 +320,7 @@ export function ExtractedDataDisplay({ data, toolName, validation }: ExtractedDa
         <DataTable
           headers={parsedData.headers}
           rows={parsedData.rows}
+          columnTypes={parsedData.columnTypes}
           maxHeight={320}
         />
 
@@ -317,6 +367,11 @@ export function ExtractedDataDisplay({ data, toolName, validation }: ExtractedDa
             <span className="font-semibold text-sm text-[var(--foreground)]">Extracted Content</span>
             <span className="text-[10px] text-[var(--muted)] uppercase tracking-wide">Raw Text</span>
           </div>
+          {archive && (
+            <div className="ml-auto">
+              <ArchiveDownloadButton archive={archive} />
+            </div>
+          )}
         </div>
 
         {/* Text content */}
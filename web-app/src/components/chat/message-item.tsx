@@ -3,7 +3,15 @@
 import dynamic from 'next/dynamic';
 import { UIMessage } from 'ai';
 import { cn, formatTime } from '@/lib/utils';
-import { ExtractedDataDisplay } from './extracted-data-display';
+import { ExtractedDataDisplay, type PageArchiveInfo } from './extracted-data-display';
+import { TERMINATION_LABELS, type Termination } from '@/lib/agent-budget';
+import type { ChatMessageMetadata } from '@/types/chat';
+import type { CrawlProgress } from '@/hooks/use-extension';
+import type { ExtractionSchema } from '@/lib/field-types';
+import { getInjectionWarnings, unwrapUntrusted } from '@/lib/prompt-injection';
+import type { PendingApproval } from '@/lib/approval';
+import { getDialogs } from '@/lib/dialog-policy';
+import { Button } from '@/components/ui/button';
 
 // Dynamic import for react-markdown to reduce initial bundle size
 const ReactMarkdown = dynamic(
@@ -21,6 +29,9 @@ import remarkGfm from 'remark-gfm';
 interface MessageItemProps {
   message: UIMessage;
   isStreaming?: boolean;
+  crawlProgress?: Record<string, CrawlProgress>;
+  pendingApprovals?: Record<string, PendingApproval>;
+  onApprovalDecision?: (toolCallId: string, approved: boolean) => void;
 }
 
 const toolIcons: Record<string, string> = {
@@ -29,9 +40,32 @@ const toolIcons: Record<string, string> = {
   click: '👆',
   type: '⌨️',
   scroll: '📜',
+  scrollUntil: '📜',
+  pressKey: '⌨️',
+  hover: '🖱️',
+  selectOption: '🔽',
+  check: '☑️',
+  uncheck: '⬜',
+  dragAndDrop: '✋',
   extract: '📄',
+  extractMore: '📄',
   extractData: '📊',
+  runExtractor: '🧩',
+  crawl: '🕸️',
   wait: '⏳',
+  waitForSelector: '⏳',
+  waitForUrl: '⏳',
+  waitForNetworkIdle: '⏳',
+  snapshot: '🧭',
+  archivePage: '🗄️',
+  listFrames: '🪟',
+  networkRequests: '📡',
+  consoleLogs: '🐞',
+  handleDialog: '💬',
+  listTabs: '🗂️',
+  openTab: '➕',
+  switchTab: '🔀',
+  closeTab: '✖️',
 };
 
 const toolLabels: Record<string, string> = {
@@ -40,9 +74,32 @@ const toolLabels: Record<string, string> = {
   click: 'Click',
   type: 'Type',
   scroll: 'Scroll',
+  scrollUntil: 'Scroll Until',
+  pressKey: 'Press Key',
+  hover: 'Hover',
+  selectOption: 'Select Option',
+  check: 'Check',
+  uncheck: 'Uncheck',
+  dragAndDrop: 'Drag and Drop',
   extract: 'Extract',
+  extractMore: 'Extract More',
   extractData: 'Structured Data',
+  runExtractor: 'Run Extractor',
+  crawl: 'Crawl',
   wait: 'Wait',
+  waitForSelector: 'Wait for Element',
+  waitForUrl: 'Wait for URL',
+  waitForNetworkIdle: 'Wait for Network',
+  snapshot: 'Snapshot',
+  archivePage: 'Archive Page',
+  listFrames: 'List Frames',
+  networkRequests: 'Network Requests',
+  consoleLogs: 'Console Logs',
+  handleDialog: 'Answer Dialog',
+  listTabs: 'List Tabs',
+  openTab: 'Open Tab',
+  switchTab: 'Switch Tab',
+  closeTab: 'Close Tab',
 };
 
 function ToolCallDisplay({ part }: { part: ToolPart }) {
@@ -112,6 +169,176 @@ function ToolCallDisplay({ part }: { part: ToolPart }) {
   );
 }
 
+const terminationIcons: Record<Termination['reason'], string> = {
+  'budget-exhausted': '⏱️',
+  'model-finished': '🏁',
+  'tool-error': '⚠️',
+  'user-abort': '✋',
+  'output-limit': '✂️',
+  'content-filter': '🚫',
+  'model-error': '⚠️',
+};
+
+function TerminationNotice({ termination }: { termination: Termination }) {
+  const isProblem = termination.reason !== 'model-finished';
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs',
+        'border',
+        isProblem
+          ? 'bg-[var(--warning)]/5 border-[var(--warning)]/30 text-[var(--warning)]'
+          : 'bg-[var(--background)] border-[var(--card-border)] text-[var(--muted)]'
+      )}
+    >
+      <span aria-hidden="true">{terminationIcons[termination.reason]}</span>
+      <span className="font-medium">{TERMINATION_LABELS[termination.reason]}</span>
+      {termination.detail && (
+        <span className="truncate text-[var(--muted)]">{termination.detail}</span>
+      )}
+    </div>
+  );
+}
+
+// Screenshot saved with the session (opens full size in a new tab)
+function ScreenshotArtifact({ output }: { output: unknown }) {
+  const artifact = (output as { artifact?: { url?: unknown } } | undefined)?.artifact;
+  if (typeof artifact?.url !== 'string') return null;
+
+  return (
+    <a href={artifact.url} target="_blank" rel="noreferrer" className="block mt-1">
+      <img
+        src={artifact.url}
+        alt="Screenshot of the page"
+        className="max-h-64 rounded-md border border-[var(--card-border)] object-contain object-top"
+      />
+    </a>
+  );
+}
+
+// Prompt-injection findings and content-policy decisions attached to a tool result
+function ContentPolicyNotice({ output }: { output: unknown }) {
+  if (!output || typeof output !== 'object') return null;
+
+  const result = output as { policyBlocked?: boolean; policyWarning?: string; error?: string };
+  const findings = getInjectionWarnings(output);
+  const message = result.policyBlocked
+    ? result.error
+    : result.policyWarning
+      ? `Flagged: ${result.policyWarning}`
+      : findings.length > 0
+        ? `Page content looks like a prompt injection (${findings.map(f => f.rule).join(', ')})`
+        : null;
+
+  if (!message) return null;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 mt-1 px-3 py-1.5 rounded-lg text-xs border',
+        result.policyBlocked
+          ? 'bg-[var(--error)]/5 border-[var(--error)]/30 text-[var(--error)]'
+          : 'bg-[var(--warning)]/5 border-[var(--warning)]/30 text-[var(--warning)]'
+      )}
+      title={findings.map(f => f.excerpt).join('\n')}
+    >
+      <span aria-hidden="true">🛡️</span>
+      <span className="truncate">{message}</span>
+    </div>
+  );
+}
+
+// JavaScript dialogs the page opened while the tool ran, and how they were answered
+function DialogNotice({ output }: { output: unknown }) {
+  const dialogs = getDialogs(output);
+  if (dialogs.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-1">
+      {dialogs.map(dialog => (
+        <div
+          key={`${dialog.tabId}-${dialog.openedAt}`}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs border bg-[var(--background)] border-[var(--card-border)] text-[var(--muted)]"
+        >
+          <span aria-hidden="true">💬</span>
+          <span className="font-medium text-[var(--foreground)]">{dialog.type}</span>
+          <span className="truncate" title={unwrapUntrusted(dialog.message)}>
+            {unwrapUntrusted(dialog.message) || '(no message)'}
+          </span>
+          <span className={cn('ml-auto shrink-0', dialog.handled === null && 'text-[var(--warning)]')}>
+            {dialog.handled ?? 'waiting for an answer'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Approve/deny card for an action waiting in approval mode
+function ApprovalCard({
+  approval,
+  onDecision,
+}: {
+  approval: PendingApproval;
+  onDecision: (approved: boolean) => void;
+}) {
+  const { toolName, input } = approval;
+  const details: Array<[string, unknown]> = [
+    ['URL', input.url],
+    ['Selector', input.selector],
+    ['Ref', input.ref],
+    ['Source', input.source ?? input.sourceRef],
+    ['Drop on', input.target ?? input.targetRef],
+    ['Text', input.text],
+    ['Key', input.key],
+    ['Option', Array.isArray(input.values) ? input.values.join(', ') : input.values],
+    ['Tab', input.tabId],
+    ['Answer', typeof input.accept === 'boolean' ? (input.accept ? 'Accept' : 'Dismiss') : undefined],
+    ['Prompt text', input.promptText],
+  ];
+
+  return (
+    <div className="mt-1 rounded-lg border border-[var(--warning)]/40 bg-[var(--warning)]/5 p-3 text-xs">
+      <p className="font-medium text-[var(--warning)] mb-2">
+        Approve {toolLabels[toolName] || toolName}?
+      </p>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mb-2">
+        {details.filter(([, value]) => typeof value === 'string' || typeof value === 'number').map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-[var(--muted)]">{label}</dt>
+            <dd className="font-mono text-[var(--foreground)] break-all">{String(value)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* Highlighted target element */}
+      {approval.previewLoading ? (
+        <div className="h-24 mb-2 rounded-md bg-[var(--background)] animate-pulse" />
+      ) : approval.screenshot ? (
+        <img
+          src={approval.screenshot}
+          alt={`Target of the ${toolName} action`}
+          className="mb-2 w-full rounded-md border border-[var(--card-border)]"
+        />
+      ) : null}
+      {!approval.previewLoading && [input.selector, input.ref, input.source, input.sourceRef].some(v => typeof v === 'string') && approval.elementFound === false && (
+        <p className="mb-2 text-[var(--error)]">Element not found on the page</p>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={() => onDecision(false)}>
+          Deny
+        </Button>
+        <Button variant="accent" size="sm" onClick={() => onDecision(true)}>
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 // Helper to extract text content from message parts
 // Optimized: single loop instead of filter+map+join
 function getTextContent(message: UIMessage): string {
@@ -166,6 +393,11 @@ function getToolParts(message: UIMessage): ToolPart[] {
   return toolParts;
 }
 
+// Page content reaches the model wrapped as untrusted - show it without the delimiters
+function unwrapContent(value: unknown): unknown {
+  return typeof value === 'string' ? unwrapUntrusted(value) : value;
+}
+
 // Helper to extract data from tool output
 function getExtractedData(output: unknown, input?: unknown): unknown {
   if (!output) return null;
@@ -173,16 +405,16 @@ function getExtractedData(output: unknown, input?: unknown): unknown {
   // If output is an object with a data property, use that
   if (typeof output === 'object' && output !== null) {
     const obj = output as Record<string, unknown>;
-    if ('data' in obj) return obj.data;
-    if ('result' in obj) return obj.result;
-    if ('content' in obj) return obj.content;
-    if ('text' in obj) return obj.text;
+    if ('data' in obj) return unwrapContent(obj.data);
+    if ('result' in obj) return unwrapContent(obj.result);
+    if ('content' in obj) return unwrapContent(obj.content);
+    if ('text' in obj) return unwrapContent(obj.text);
     // Return the whole object if no specific data field
     return output;
   }
 
   // String or primitive output
-  return output;
+  return unwrapContent(output);
 }
 
 // Helper to get data from extractData tool input (the LLM sends data in the input)
@@ -199,6 +431,14 @@ function getExtractDataInput(input: unknown): unknown {
   return null;
 }
 
+// Helper to get the field types the LLM declared in the extractData input
+function getExtractDataSchema(input: unknown): ExtractionSchema | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const schema = (input as Record<string, unknown>).schema;
+  return schema && typeof schema === 'object' ? schema as ExtractionSchema : undefined;
+}
+
 // Helper to get validation info from extractData tool output
 interface ValidationInfo {
   isValid: boolean;
@@ -209,6 +449,22 @@ interface ValidationInfo {
   }>;
 }
 
+// Latest page archive saved in this message - offered next to its extracted data
+function getPageArchive(toolParts: ToolPart[]): PageArchiveInfo | undefined {
+  for (const part of [...toolParts].reverse()) {
+    if (part.toolName !== 'archivePage' || !part.output || typeof part.output !== 'object') continue;
+    const output = part.output as { artifact?: { url?: unknown }; format?: unknown; capturedAt?: unknown };
+    if (typeof output.artifact?.url === 'string') {
+      return {
+        url: output.artifact.url,
+        format: typeof output.format === 'string' ? output.format : 'pdf',
+        capturedAt: typeof output.capturedAt === 'string' ? output.capturedAt : undefined,
+      };
+    }
+  }
+  return undefined;
+}
+
 function getValidationInfo(output: unknown): ValidationInfo | undefined {
   if (!output || typeof output !== 'object') return undefined;
 
@@ -226,11 +482,19 @@ function getValidationInfo(output: unknown): ValidationInfo | undefined {
   return undefined;
 }
 
-export function MessageItem({ message, isStreaming }: MessageItemProps) {
+export function MessageItem({
+  message,
+  isStreaming,
+  crawlProgress,
+  pendingApprovals,
+  onApprovalDecision,
+}: MessageItemProps) {
   const isUser = message.role === 'user';
   const textContent = getTextContent(message);
   const toolParts = getToolParts(message);
   const hasToolCalls = toolParts.length > 0;
+  const archive = getPageArchive(toolParts);
+  const termination = (message.metadata as ChatMessageMetadata | undefined)?.termination;
 
   return (
     <div
@@ -362,18 +626,27 @@ export function MessageItem({ message, isStreaming }: MessageItemProps) {
               const isComplete = part.state === 'output-available' || part.output !== undefined;
               const isExtractTool = part.toolName === 'extract';
               const isExtractDataTool = part.toolName === 'extractData';
-              const isDataTool = isExtractTool || isExtractDataTool;
+              const isRunExtractorTool = part.toolName === 'runExtractor' || part.toolName === 'crawl' || part.toolName === 'scrollUntil';
+              const isDataTool = isExtractTool || isExtractDataTool || isRunExtractorTool;
+              // Rows streamed in by a crawl that is still running
+              const progress = part.toolName === 'crawl' ? crawlProgress?.[part.toolCallId] : undefined;
 
               // For extractData tool, the structured data is in the input (sent by LLM)
               // For extract tool, the data is in the output (returned by browser)
               let displayData: unknown = null;
               let validationInfo: ValidationInfo | undefined = undefined;
+              let schema: ExtractionSchema | undefined = undefined;
               if (isDataTool && isComplete) {
                 if (isExtractDataTool) {
-                  // extractData: LLM sends structured data in input.data
+                  // extractData: LLM sends structured data in input.data (typed by input.schema)
                   displayData = getExtractDataInput(part.input);
+                  schema = getExtractDataSchema(part.input);
                   // Get validation info from output
                   validationInfo = getValidationInfo(part.output);
+                } else if (isRunExtractorTool) {
+                  // runExtractor/crawl/scrollUntil: rows (and validation) come back in the output
+                  displayData = getExtractDataInput(part.output);
+                  validationInfo = getValidationInfo(part.output);
                 } else {
                   // extract: browser returns raw content in output
                   displayData = getExtractedData(part.output);
@@ -383,11 +656,30 @@ export function MessageItem({ message, isStreaming }: MessageItemProps) {
               return (
                 <div key={part.toolCallId}>
                   <ToolCallDisplay part={part} />
+                  {isComplete && <ContentPolicyNotice output={part.output} />}
+                  {isComplete && <DialogNotice output={part.output} />}
+                  {isComplete && part.toolName === 'screenshot' && <ScreenshotArtifact output={part.output} />}
+                  {!isComplete && pendingApprovals?.[part.toolCallId] && onApprovalDecision && (
+                    <ApprovalCard
+                      approval={pendingApprovals[part.toolCallId]}
+                      onDecision={(approved) => onApprovalDecision(part.toolCallId, approved)}
+                    />
+                  )}
                   {isDataTool && isComplete && displayData !== null && (
                     <ExtractedDataDisplay
                       data={displayData}
                       toolName={part.toolName}
                       validation={validationInfo}
+                      progress={progress}
+                      schema={schema}
+                      archive={archive}
+                    />
+                  )}
+                  {!isComplete && progress && progress.rows.length > 0 && (
+                    <ExtractedDataDisplay
+                      data={progress.rows}
+                      toolName={part.toolName}
+                      progress={progress}
                     />
                   )}
                 </div>
@@ -396,6 +688,11 @@ export function MessageItem({ message, isStreaming }: MessageItemProps) {
           </div>
         )}
 
+        {/* Why the agent stopped */}
+        {!isUser && termination && !isStreaming && (
+          <TerminationNotice termination={termination} />
+        )}
+
         {/* Timestamp */}
         <span className="text-[10px] text-[var(--muted)] px-1">
           {formatTime(new Date())}
@@ -3,14 +3,26 @@
 import { useRef, useEffect } from 'react';
 import { UIMessage } from 'ai';
 import { MessageItem } from './message-item';
+import type { CrawlProgress } from '@/hooks/use-extension';
+import type { PendingApproval } from '@/lib/approval';
 
 interface MessageListProps {
   messages: UIMessage[];
   isLoading?: boolean;
   onSuggestionClick?: (suggestion: string) => void;
+  crawlProgress?: Record<string, CrawlProgress>;
+  pendingApprovals?: Record<string, PendingApproval>;
+  onApprovalDecision?: (toolCallId: string, approved: boolean) => void;
 }
 
-export function MessageList({ messages, isLoading, onSuggestionClick }: MessageListProps) {
+export function MessageList({
+  messages,
+  isLoading,
+  onSuggestionClick,
+  crawlProgress,
+  pendingApprovals,
+  onApprovalDecision,
+}: MessageListProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new messages arrive
@@ -59,6 +71,9 @@ export function MessageList({ messages, isLoading, onSuggestionClick }: MessageL
           key={message.id}
           message={message}
           isStreaming={isLoading && index === messages.length - 1 && message.role === 'assistant'}
+          crawlProgress={crawlProgress}
+          pendingApprovals={pendingApprovals}
+          onApprovalDecision={onApprovalDecision}
         />
       ))}
 
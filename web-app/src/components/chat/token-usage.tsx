@@ -2,9 +2,9 @@
 
 import { TokenUsage, calculateCost } from '@/lib/token-cost';
 
-export function TokenUsageDisplay({ usage }: { usage: TokenUsage | null }) {
+export function TokenUsageDisplay({ usage, model }: { usage: TokenUsage | null; model?: string }) {
   if (!usage) return null;
-  const cost = calculateCost(usage);
+  const cost = calculateCost(usage, model);
 
   return (
     <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-[var(--muted)] border-t border-[var(--card-border)]">
@@ -13,6 +13,7 @@ export function TokenUsageDisplay({ usage }: { usage: TokenUsage | null }) {
         {usage.inputTokens.toLocaleString()} in + {usage.outputTokens.toLocaleString()} out
       </span>
       <span className="text-[var(--accent)]">({cost.formatted})</span>
+      {model && <span className="ml-auto font-mono text-[10px]">{model}</span>}
     </div>
   );
 }
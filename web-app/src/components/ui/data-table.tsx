@@ -2,14 +2,20 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { cn } from '@/lib/utils';
+import { formatFieldValue, type FieldType, type FieldValue } from '@/lib/field-types';
 
 interface DataTableProps {
   headers: string[];
-  rows: string[][];
+  rows: FieldValue[][];
+  columnTypes?: FieldType[];
   maxHeight?: number;
   className?: string;
 }
 
+const NUMERIC_TYPES: FieldType[] = ['number', 'currency'];
+// Only http(s) values become links - anything else (javascript:, data:) is shown as text
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value);
+
 interface TooltipState {
   visible: boolean;
   content: string;
@@ -17,7 +23,7 @@ interface TooltipState {
   y: number;
 }
 
-export function DataTable({ headers, rows, maxHeight = 300, className }: DataTableProps) {
+export function DataTable({ headers, rows, columnTypes = [], maxHeight = 300, className }: DataTableProps) {
   const [tooltip, setTooltip] = useState<TooltipState>({
     visible: false,
     content: '',
@@ -89,6 +95,7 @@ export function DataTable({ headers, rows, maxHeight = 300, className }: DataTab
                 key={index}
                 className={cn(
                   'px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider',
+                  NUMERIC_TYPES.includes(columnTypes[index]) && 'text-right',
                   'text-[var(--accent)] bg-[var(--background)]',
                   'border-b-2 border-[var(--accent)]/20',
                   'whitespace-nowrap',
@@ -119,34 +126,50 @@ export function DataTable({ headers, rows, maxHeight = 300, className }: DataTab
               )}
               style={{ animationDelay: `${Math.min(rowIndex * 30, 300)}ms` }}
             >
-              {row.map((cell, cellIndex) => (
-                <td
-                  key={cellIndex}
-                  onMouseEnter={(e) => handleCellMouseEnter(e, cell)}
-                  onMouseLeave={handleCellMouseLeave}
-                  className={cn(
-                    'px-4 py-3 text-[var(--foreground)]/85',
-                    'max-w-[280px] truncate',
-                    'transition-colors duration-150',
-                    'group-hover:text-[var(--foreground)]',
-                    'first:pl-4 last:pr-4',
-                    'cursor-default'
-                  )}
-                >
-                  {cell ? (
-                    <span className="relative">
-                      {cell}
-                    </span>
-                  ) : (
-                    <span className="inline-flex items-center gap-1 text-[var(--muted)]/40 italic text-xs">
-                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
-                      </svg>
-                      empty
-                    </span>
-                  )}
-                </td>
-              ))}
+              {row.map((value, cellIndex) => {
+                const cell = formatFieldValue(value);
+                const columnType = columnTypes[cellIndex];
+                return (
+                  <td
+                    key={cellIndex}
+                    onMouseEnter={(e) => handleCellMouseEnter(e, cell)}
+                    onMouseLeave={handleCellMouseLeave}
+                    className={cn(
+                      'px-4 py-3 text-[var(--foreground)]/85',
+                      'max-w-[280px] truncate',
+                      'transition-colors duration-150',
+                      'group-hover:text-[var(--foreground)]',
+                      'first:pl-4 last:pr-4',
+                      'cursor-default',
+                      NUMERIC_TYPES.includes(columnType) && 'text-right tabular-nums'
+                    )}
+                  >
+                    {cell ? (
+                      columnType === 'url' && isHttpUrl(cell) ? (
+                        <a
+                          href={cell}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-[var(--accent)] hover:underline cursor-pointer"
+                        >
+                          {cell}
+                        </a>
+                      ) : (
+                        <span className="relative">
+                          {cell}
+                        </span>
+                      )
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-[var(--muted)]/40 italic text-xs">
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                        </svg>
+                        empty
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
             </tr>
           ))}
         </tbody>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { BrowserDialog } from '@/lib/dialog-policy';
 
 export interface ExtensionState {
   connected: boolean;
@@ -12,13 +13,38 @@ export interface ExtensionState {
   lastError: string | null;
   livePreviewEnabled: boolean;
   liveScreenshot: string | null; // For live preview frames
+  crawlProgress: Record<string, CrawlProgress>; // Keyed by progressId (tool call id)
+  consoleEntries: ConsoleEntry[]; // Console messages and exceptions of the target tab, oldest first
+  openDialog: BrowserDialog | null; // JavaScript dialog waiting for an answer (dialog policy 'ask')
+}
+
+// Console message or uncaught exception recorded by the extension (CDP Runtime domain)
+export interface ConsoleEntry {
+  tabId: number;
+  level: string; // log, info, warning, error, debug, ... or exception
+  text: string;
+  url: string | null;
+  line: number | null;
+  timestamp: number;
+}
+
+// Same cap as the extension's per-tab console buffer
+const MAX_CONSOLE_ENTRIES = 200;
+
+export interface CrawlProgress {
+  page: number;
+  maxPages: number;
+  url: string;
+  rows: Record<string, string>[];
+  done: boolean;
 }
 
 export interface ToolResult {
   success: boolean;
   data?: unknown;
   error?: string;
-  screenshot?: string;
+  screenshot?: string | null;
+  found?: boolean;
 }
 
 type MessageHandler = (result: ToolResult) => void;
@@ -34,6 +60,9 @@ export function useExtension() {
     lastError: null,
     livePreviewEnabled: false,
     liveScreenshot: null,
+    crawlProgress: {},
+    consoleEntries: [],
+    openDialog: null,
   });
 
   const pendingCallbacks = useRef<Map<string, MessageHandler>>(new Map());
@@ -91,12 +120,46 @@ export function useExtension() {
         livePreviewEnabled: true,
         currentUrl: payload?.url || prev.currentUrl,
       }));
+    } else if (type === 'CRAWL_PROGRESS') {
+      // Crawl finished a page - rows aggregated so far
+      if (payload?.progressId) {
+        setState(prev => ({
+          ...prev,
+          crawlProgress: {
+            ...prev.crawlProgress,
+            [payload.progressId]: {
+              page: payload.page,
+              maxPages: payload.maxPages,
+              url: payload.url,
+              rows: payload.rows,
+              done: payload.done,
+            },
+          },
+        }));
+      }
+    } else if (type === 'CONSOLE_ENTRY') {
+      // Console message or exception on the target tab
+      if (payload) {
+        setState(prev => ({
+          ...prev,
+          consoleEntries: [...prev.consoleEntries, payload as ConsoleEntry].slice(-MAX_CONSOLE_ENTRIES),
+        }));
+      }
+    } else if (type === 'DIALOG_OPENED') {
+      // Dialogs the extension answered by policy are only listed in tool results
+      if (payload && payload.handled === null) {
+        setState(prev => ({ ...prev, openDialog: payload as BrowserDialog }));
+      }
+    } else if (type === 'DIALOG_CLOSED') {
+      setState(prev => (prev.openDialog?.tabId === payload?.tabId ? { ...prev, openDialog: null } : prev));
     } else if (type === 'CAPTURE_STOPPED') {
       // Live capture stopped (debugger detached, tab closed, etc.)
       setState(prev => ({
         ...prev,
         livePreviewEnabled: false,
         liveScreenshot: null,
+        // The extension can't answer a dialog without the debugger
+        openDialog: null,
       }));
     }
   }, []);
@@ -127,10 +190,11 @@ export function useExtension() {
     };
   }, [handleMessage]);
 
-  // Execute a browser tool
+  // Execute a browser tool (long-running tools like crawl pass a larger timeout)
   const executeTool = useCallback((
     toolName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    timeoutMs: number = 30000
   ): Promise<ToolResult> => {
     return new Promise((resolve) => {
       const messageId = `tool_${++messageIdCounter.current}_${Date.now()}`;
@@ -150,7 +214,7 @@ export function useExtension() {
             error: 'Tool execution timed out. Make sure the extension is connected.',
           });
         }
-      }, 30000); // 30 second timeout
+      }, timeoutMs);
 
       // Send message to extension
       window.postMessage({
@@ -183,7 +247,7 @@ export function useExtension() {
     return executeTool('scroll', { direction, amount });
   }, [executeTool]);
 
-  const extract = useCallback((selector?: string, type: 'html' | 'text' = 'text') => {
+  const extract = useCallback((selector?: string, type: 'html' | 'text' | 'markdown' = 'text') => {
     return executeTool('extract', { selector, type });
   }, [executeTool]);
 
@@ -262,6 +326,11 @@ export function useExtension() {
     }
   }, [executeTool]);
 
+  // Clear the console panel (the extension keeps its own buffer for consoleLogs)
+  const clearConsole = useCallback(() => {
+    setState(prev => ({ ...prev, consoleEntries: [] }));
+  }, []);
+
   return {
     ...state,
     executeTool,
@@ -274,5 +343,6 @@ export function useExtension() {
     wait,
     startLivePreview,
     stopLivePreview,
+    clearConsole,
   };
 }
@@ -0,0 +1,170 @@
+/**
+ * Agent step/time budget
+ *
+ * A task starts with a user message and spans every automatic follow-up
+ * request (one per client-side tool round trip). The budget caps the total
+ * number of model steps and the wall-clock time of a task. When the agent
+ * stops, the stream carries a termination reason in the message metadata.
+ * A failed tool ends the task too - on the server (headless tools) or, for
+ * extension tools, once their failed output comes back with the next request.
+ */
+
+import type { StepResult, ToolSet } from 'ai';
+
+export type TerminationReason =
+  | 'budget-exhausted'
+  | 'model-finished'
+  | 'tool-error'
+  | 'user-abort'
+  | 'output-limit'
+  | 'content-filter'
+  | 'model-error';
+
+export interface Termination {
+  reason: TerminationReason;
+  detail?: string;
+}
+
+export interface AgentBudget {
+  maxSteps: number;
+  maxDurationMs: number;
+}
+
+export const DEFAULT_BUDGET: AgentBudget = {
+  maxSteps: 12,
+  maxDurationMs: 180_000,
+};
+
+export const BUDGET_LIMITS = {
+  maxSteps: { min: 1, max: 50 },
+  maxDurationMs: { min: 10_000, max: 900_000 },
+};
+
+export const TERMINATION_LABELS: Record<TerminationReason, string> = {
+  'budget-exhausted': 'Budget exhausted',
+  'model-finished': 'Finished',
+  'tool-error': 'Stopped on tool error',
+  'user-abort': 'Stopped by user',
+  'output-limit': 'Stopped at the output token limit',
+  'content-filter': 'Stopped by the content filter',
+  'model-error': 'Stopped on model error',
+};
+
+/**
+ * Termination for a finish reason other than 'stop' and 'tool-calls'
+ */
+export function finishReasonTermination(finishReason: string): Termination {
+  switch (finishReason) {
+    case 'length':
+      return { reason: 'output-limit' };
+    case 'content-filter':
+      return { reason: 'content-filter' };
+    case 'error':
+      return { reason: 'model-error' };
+    default:
+      return { reason: 'model-finished' };
+  }
+}
+
+function clamp(value: number, { min, max }: { min: number; max: number }): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Resolve a budget from the request body, falling back to defaults
+ * and clamping to sane limits
+ */
+export function resolveBudget(input: unknown): AgentBudget {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const maxSteps = typeof raw.maxSteps === 'number' ? raw.maxSteps : DEFAULT_BUDGET.maxSteps;
+  const maxDurationMs = typeof raw.maxDurationMs === 'number' ? raw.maxDurationMs : DEFAULT_BUDGET.maxDurationMs;
+
+  return {
+    maxSteps: Math.round(clamp(maxSteps, BUDGET_LIMITS.maxSteps)),
+    maxDurationMs: Math.round(clamp(maxDurationMs, BUDGET_LIMITS.maxDurationMs)),
+  };
+}
+
+/**
+ * Count the model steps already spent on the current task
+ * (step-start parts of assistant messages after the last user message)
+ */
+export function countTaskSteps(messages: Array<{ role: string; parts?: Array<{ type: string }> }>): number {
+  let steps = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'user') break;
+    if (message.role === 'assistant') {
+      steps += (message.parts || []).filter(p => p.type === 'step-start').length;
+    }
+  }
+  return steps;
+}
+
+/**
+ * Error message of a failed tool output ({success: false}), or undefined
+ * Denied actions don't count - the model asks the user how to go on.
+ */
+function failedOutputError(output: unknown): string | undefined {
+  const result = output as { success?: unknown; deniedByUser?: unknown; error?: unknown } | null;
+  if (!result || typeof result !== 'object' || result.success !== false || result.deniedByUser) {
+    return undefined;
+  }
+  return typeof result.error === 'string' ? result.error : 'failed';
+}
+
+/**
+ * Find a tool execution error (or failed tool output) in the last step
+ * Invalid tool inputs are ignored - the model gets a chance to correct them.
+ */
+export function findToolError<TOOLS extends ToolSet>(steps: Array<StepResult<TOOLS>>): string | undefined {
+  const lastStep = steps[steps.length - 1];
+  if (!lastStep) return undefined;
+
+  const invalidCallIds = new Set(
+    lastStep.content
+      .filter(part => part.type === 'tool-call' && part.invalid)
+      .map(part => (part as { toolCallId: string }).toolCallId)
+  );
+
+  for (const part of lastStep.content) {
+    if (part.type === 'tool-error' && !invalidCallIds.has(part.toolCallId)) {
+      const message = part.error instanceof Error ? part.error.message : String(part.error);
+      return `${part.toolName}: ${message}`;
+    }
+    if (part.type === 'tool-result') {
+      const failed = failedOutputError(part.output);
+      if (failed !== undefined) {
+        return `${part.toolName}: ${failed}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find a failed client tool output in the last step of the assistant message -
+ * extension tools run in the browser, so their results only reach the server
+ * with the follow-up request
+ */
+export function findClientToolError(
+  messages: Array<{ role: string; parts?: Array<{ type: string; state?: string; output?: unknown; errorText?: string }> }>
+): string | undefined {
+  const lastMessage = messages[messages.length - 1];
+  if (lastMessage?.role !== 'assistant') return undefined;
+
+  const parts = lastMessage.parts || [];
+  const lastStepStart = parts.map(part => part.type).lastIndexOf('step-start');
+  for (const part of parts.slice(lastStepStart + 1)) {
+    if (!part.type.startsWith('tool-')) continue;
+    const toolName = part.type.slice('tool-'.length);
+    if (part.state === 'output-error') {
+      return `${toolName}: ${part.errorText ?? 'failed'}`;
+    }
+    const failed = part.state === 'output-available' ? failedOutputError(part.output) : undefined;
+    if (failed !== undefined) {
+      return `${toolName}: ${failed}`;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,44 @@
+/**
+ * Human approval gate
+ *
+ * In approval mode, side-effecting browser actions on the user's real tab
+ * wait for an explicit approve/deny in the chat before they run. Headless
+ * runs use a throwaway browser and are not gated.
+ */
+
+export type ApprovalMode = 'auto' | 'approve';
+
+// Actions that change the page, leave it, open/close tabs, or answer its dialogs
+export const APPROVAL_TOOLS = new Set([
+  'click',
+  'type',
+  'pressKey',
+  'selectOption',
+  'check',
+  'uncheck',
+  'dragAndDrop',
+  'navigate',
+  'openTab',
+  'closeTab',
+  'handleDialog',
+]);
+
+export interface PendingApproval {
+  toolName: string;
+  input: Record<string, unknown>;
+  // Target element outlined in the live tab (null until the preview arrives)
+  screenshot: string | null;
+  elementFound?: boolean;
+  previewLoading: boolean;
+}
+
+export function needsApproval(mode: ApprovalMode, toolName: string): boolean {
+  return mode === 'approve' && APPROVAL_TOOLS.has(toolName);
+}
+
+/**
+ * Result returned to the model when the user denies an action
+ */
+export function deniedResult(toolName: string) {
+  return { success: false, deniedByUser: true, error: `The user denied the ${toolName} action` };
+}
@@ -0,0 +1,111 @@
+/**
+ * Artifact Store
+ *
+ * Saves files captured during a chat session (screenshots, page archives)
+ * next to the session transcripts (./data/artifacts/<sessionId>/<artifactId>.<ext>),
+ * so they stay attached to the conversation and can be opened from the chat.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { isValidSessionId } from './session-store';
+
+const ARTIFACTS_DIR = './data/artifacts';
+
+// Types artifacts may have, by file extension
+const MEDIA_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  mhtml: 'multipart/related',
+};
+
+export interface Artifact {
+  id: string;
+  url: string;
+  mediaType: string;
+  bytes: number;
+}
+
+/**
+ * Artifact ids are generated here - only allow that shape (no path segments)
+ */
+export function isValidArtifactId(id: string): boolean {
+  const match = /^[\w-]{1,80}\.(\w+)$/.exec(id);
+  return !!match && Object.hasOwn(MEDIA_TYPES, match[1]);
+}
+
+/**
+ * Split a base64 data URL into its media type and bytes
+ * Returns null for anything but a supported type
+ */
+export function parseDataUrl(dataUrl: string): { mediaType: string; data: Buffer } | null {
+  const match = /^data:([\w-]+\/[\w+.-]+);base64,(.+)$/.exec(dataUrl);
+  if (!match || !Object.values(MEDIA_TYPES).includes(match[1])) return null;
+  return { mediaType: match[1], data: Buffer.from(match[2], 'base64') };
+}
+
+/**
+ * Save a data URL (image, PDF or MHTML) as an artifact of a session
+ */
+export async function saveArtifact(sessionId: string, dataUrl: string, name = 'file'): Promise<Artifact> {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session id: ${sessionId}`);
+  }
+  const file = parseDataUrl(dataUrl);
+  if (!file) {
+    throw new Error('Expected a base64 data URL of an image, PDF or MHTML archive');
+  }
+
+  const extension = Object.keys(MEDIA_TYPES).find(ext => MEDIA_TYPES[ext] === file.mediaType);
+  const slug = name.replace(/[^\w-]+/g, '-').slice(0, 40) || 'file';
+  const id = `${slug}-${Date.now()}-${randomUUID().slice(0, 8)}.${extension}`;
+
+  const dir = path.join(ARTIFACTS_DIR, sessionId);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, id), file.data);
+
+  return {
+    id,
+    url: `/api/sessions/${sessionId}/artifacts/${id}`,
+    mediaType: file.mediaType,
+    bytes: file.data.length,
+  };
+}
+
+/**
+ * Read an artifact's bytes
+ * Returns null if it doesn't exist
+ */
+export async function readArtifact(
+  sessionId: string,
+  artifactId: string
+): Promise<{ data: Buffer; mediaType: string } | null> {
+  if (!isValidSessionId(sessionId) || !isValidArtifactId(artifactId)) return null;
+
+  try {
+    const data = await fs.readFile(path.join(ARTIFACTS_DIR, sessionId, artifactId));
+    return { data, mediaType: MEDIA_TYPES[artifactId.split('.').pop()!] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an artifact back as a base64 data URL
+ * Returns null if it doesn't exist
+ */
+export async function readArtifactDataUrl(sessionId: string, artifactId: string): Promise<string | null> {
+  const artifact = await readArtifact(sessionId, artifactId);
+  return artifact ? `data:${artifact.mediaType};base64,${artifact.data.toString('base64')}` : null;
+}
+
+/**
+ * Delete all artifacts of a session
+ */
+export async function deleteArtifacts(sessionId: string): Promise<void> {
+  if (!isValidSessionId(sessionId)) return;
+  await fs.rm(path.join(ARTIFACTS_DIR, sessionId), { recursive: true, force: true });
+}
@@ -8,12 +8,24 @@
  * 4. HTML products/articles - pattern matching
  * 5. CSV/TSV - delimiter detection
  * 6. Raw text fallback
+ *
+ * Arrays of objects keep typed values (numbers, currency, arrays) and are
+ * coerced to the extraction schema when one is given.
  */
 
+import {
+  applySchema,
+  inferFieldType,
+  type ExtractionSchema,
+  type FieldType,
+  type FieldValue,
+} from './field-types';
+
 export interface ParsedData {
   type: 'table' | 'text';
   headers?: string[];
-  rows?: string[][];
+  rows?: FieldValue[][];
+  columnTypes?: FieldType[];
   text?: string;
 }
 
@@ -21,7 +33,7 @@ export interface ParsedData {
  * Parse extracted data and detect its structure
  * Prioritizes JSON arrays from LLM's extractData tool
  */
-export function parseExtractedData(data: unknown): ParsedData {
+export function parseExtractedData(data: unknown, schema?: ExtractionSchema): ParsedData {
   if (!data) {
     return { type: 'text', text: '' };
   }
@@ -29,7 +41,7 @@ export function parseExtractedData(data: unknown): ParsedData {
   // Priority 1: Already an array of objects (from extractData tool)
   if (Array.isArray(data) && data.length > 0) {
     if (typeof data[0] === 'object' && data[0] !== null) {
-      return parseArrayOfObjects(data as Record<string, unknown>[]);
+      return parseArrayOfObjects(data as Record<string, unknown>[], schema);
     }
     // Array of primitives
     return {
@@ -49,7 +61,7 @@ export function parseExtractedData(data: unknown): ParsedData {
         const parsed = JSON.parse(trimmed);
         if (Array.isArray(parsed) && parsed.length > 0) {
           if (typeof parsed[0] === 'object' && parsed[0] !== null) {
-            return parseArrayOfObjects(parsed as Record<string, unknown>[]);
+            return parseArrayOfObjects(parsed as Record<string, unknown>[], schema);
           }
           return {
             type: 'table',
@@ -100,10 +112,11 @@ export function parseExtractedData(data: unknown): ParsedData {
 /**
  * Parse an array of objects into table format
  */
-function parseArrayOfObjects(data: Record<string, unknown>[]): ParsedData {
-  if (data.length === 0) {
+function parseArrayOfObjects(raw: Record<string, unknown>[], schema?: ExtractionSchema): ParsedData {
+  if (raw.length === 0) {
     return { type: 'text', text: '' };
   }
+  const data = applySchema(raw, schema);
 
   // Collect all unique keys from all objects
   const headersSet = new Set<string>();
@@ -112,17 +125,16 @@ function parseArrayOfObjects(data: Record<string, unknown>[]): ParsedData {
   });
   const headers = Array.from(headersSet);
 
-  // Build rows
+  // Build rows (typed values are kept; missing values become empty strings)
   const rows = data.map(obj =>
-    headers.map(header => {
-      const value = obj[header];
-      if (value === null || value === undefined) return '';
-      if (typeof value === 'object') return JSON.stringify(value);
-      return String(value);
-    })
+    headers.map(header => obj[header] ?? '')
   );
 
-  return { type: 'table', headers, rows };
+  const columnTypes = headers.map((header, index) =>
+    schema?.[header]?.type ?? inferFieldType(rows.map(row => row[index]))
+  );
+
+  return { type: 'table', headers, rows, columnTypes };
 }
 
 /**
@@ -0,0 +1,42 @@
+/**
+ * JavaScript dialog policy
+ *
+ * alert/confirm/prompt and beforeunload dialogs block every script on their
+ * page until they are answered. The browser answers them right away by this
+ * policy, or ('ask') leaves them open for the user - or the model's
+ * handleDialog tool - to decide. Tool results list the dialogs that opened
+ * while the tool ran.
+ */
+
+export type DialogPolicy = 'accept' | 'dismiss' | 'ask';
+
+export const DIALOG_POLICIES: DialogPolicy[] = ['ask', 'dismiss', 'accept'];
+
+export const DIALOG_POLICY_LABELS: Record<DialogPolicy, string> = {
+  ask: 'Ask on dialogs',
+  dismiss: 'Dismiss dialogs',
+  accept: 'Accept dialogs',
+};
+
+export interface BrowserDialog {
+  tabId: number;
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  url: string;
+  defaultPrompt?: string;
+  openedAt: number;
+  // How it was answered - null while it is still open
+  handled: 'accepted' | 'dismissed' | null;
+}
+
+export function isDialogPolicy(value: unknown): value is DialogPolicy {
+  return typeof value === 'string' && (DIALOG_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Dialogs listed in a tool result
+ */
+export function getDialogs(result: unknown): BrowserDialog[] {
+  const dialogs = (result as { dialogs?: unknown } | null)?.dialogs;
+  return Array.isArray(dialogs) ? dialogs as BrowserDialog[] : [];
+}
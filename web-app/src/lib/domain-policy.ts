@@ -0,0 +1,140 @@
+/**
+ * Domain allow/deny policy
+ *
+ * The policy file (chrome-extension/domain-policy.json, or DOMAIN_POLICY_PATH)
+ * is shared with the extension, which re-checks every navigation and script
+ * injection itself. Host patterns are exact hosts, globs ("*" matches any
+ * characters; "*.example.com" also matches example.com) or IP ranges in CIDR
+ * notation ("10.0.0.0/8", "fc00::/7"):
+ *   allow     if non-empty, only these hosts may be visited
+ *   deny      never visited (checked first)
+ *   readOnly  may be visited and read, but not clicked or typed into
+ *
+ * Hosts are matched as written in the URL - names are never resolved. IP
+ * ranges only catch literal addresses: a DNS name that resolves to a private
+ * or loopback address (e.g. 127.0.0.1.nip.io, or a rebinding domain) is not
+ * blocked by them. Deny such services by name, or use an allowlist where the
+ * browser can reach internal hosts.
+ */
+
+import * as fs from 'fs/promises';
+
+const POLICY_PATH = process.env.DOMAIN_POLICY_PATH || '../chrome-extension/domain-policy.json';
+
+export interface DomainPolicy {
+  allow: string[];
+  deny: string[];
+  readOnly: string[];
+}
+
+// navigate: load a URL; read: inject scripts to read the page; write: click/type
+export type DomainAction = 'navigate' | 'read' | 'write';
+
+export type DomainDecision = { allowed: true } | { allowed: false; reason: string };
+
+const EMPTY_POLICY: DomainPolicy = { allow: [], deny: [], readOnly: [] };
+
+/**
+ * Load the domain policy from disk
+ * Returns an empty (allow-all) policy if the file doesn't exist
+ */
+export async function loadDomainPolicy(): Promise<DomainPolicy> {
+  try {
+    const content = await fs.readFile(POLICY_PATH, 'utf-8');
+    return { ...EMPTY_POLICY, ...JSON.parse(content) };
+  } catch {
+    return EMPTY_POLICY;
+  }
+}
+
+/**
+ * Parse an IP address into its bytes (4 for IPv4, 16 for IPv6)
+ * Returns null for host names. IPv6 hosts may keep their URL brackets.
+ */
+function parseIp(host: string): number[] | null {
+  const v4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(host);
+  if (v4) {
+    const bytes = v4.slice(1).map(Number);
+    return bytes.every(b => b <= 255) ? bytes : null;
+  }
+
+  const v6 = /^\[?([0-9a-f:]+)\]?$/i.exec(host);
+  if (!v6 || !v6[1].includes(':')) return null;
+  const halves = v6[1].split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(g => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return groups.flatMap(g => [parseInt(g, 16) >> 8, parseInt(g, 16) & 0xff]);
+}
+
+/**
+ * Check if an IP host is inside a CIDR range
+ * IPv4-mapped IPv6 hosts (::ffff:127.0.0.1) are checked as IPv4.
+ */
+function matchesCidr(range: string, host: string): boolean {
+  const [network, prefix] = range.split('/');
+  const networkBytes = parseIp(network);
+  let hostBytes = parseIp(host);
+  if (hostBytes?.length === 16 && hostBytes.slice(0, 10).every(b => b === 0) && hostBytes[10] === 0xff && hostBytes[11] === 0xff) {
+    hostBytes = hostBytes.slice(12);
+  }
+  if (!networkBytes || !hostBytes || networkBytes.length !== hostBytes.length) return false;
+
+  const bits = Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > networkBytes.length * 8) return false;
+  for (let i = 0; i * 8 < bits; i++) {
+    const mask = (0xff << (8 - Math.min(8, bits - i * 8))) & 0xff;
+    if ((networkBytes[i] & mask) !== (hostBytes[i] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Check if a host matches a policy pattern
+ */
+export function matchesHost(pattern: string, host: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.includes('/')) {
+    return matchesCidr(p, host);
+  }
+  if (p.startsWith('*.') && host === p.slice(2)) {
+    return true;
+  }
+  const regex = new RegExp('^' + p.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$');
+  return regex.test(host);
+}
+
+/**
+ * Decide whether an action is allowed on a URL
+ * URLs without a protocol are treated as https (same as the navigate tool).
+ */
+export function checkDomain(policy: DomainPolicy, url: string, action: DomainAction): DomainDecision {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : 'https://' + url);
+  } catch {
+    return { allowed: false, reason: `Invalid URL: ${url}` };
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { allowed: false, reason: `${parsed.protocol} URLs are not allowed` };
+  }
+
+  // "localhost." is localhost too
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (policy.deny.some(p => matchesHost(p, host))) {
+    return { allowed: false, reason: `${host} is on the domain denylist` };
+  }
+  if (policy.allow.length > 0 && !policy.allow.some(p => matchesHost(p, host))) {
+    return { allowed: false, reason: `${host} is not on the domain allowlist` };
+  }
+  if (action === 'write' && policy.readOnly.some(p => matchesHost(p, host))) {
+    return { allowed: false, reason: `${host} is read-only: clicking and typing are not allowed` };
+  }
+  return { allowed: true };
+}
@@ -2,17 +2,36 @@
  * Download utilities for exporting data
  */
 
+import type { CurrencyValue, FieldType, FieldValue } from './field-types';
+
 /**
  * Download data as a CSV file
+ * Currency columns are split into amount and `<column>_currency` columns.
  */
 export function downloadAsCSV(
   headers: string[],
-  rows: string[][],
-  filename: string = 'extracted-data'
+  rows: FieldValue[][],
+  filename: string = 'extracted-data',
+  columnTypes: FieldType[] = []
 ): void {
+  const isCurrency = (index: number) => columnTypes[index] === 'currency';
+
+  const csvHeaders = headers.flatMap((header, index) =>
+    isCurrency(index) ? [header, `${header}_currency`] : [header]
+  );
+  const csvRows = rows.map(row =>
+    row.flatMap((cell, index) => {
+      if (!isCurrency(index)) return [toCsvValue(cell)];
+      const money = cell as CurrencyValue | null;
+      return money && typeof money === 'object'
+        ? [String(money.amount), money.currency]
+        : [toCsvValue(cell), ''];
+    })
+  );
+
   const csvContent = [
-    headers.map(escapeCsvField).join(','),
-    ...rows.map(row => row.map(escapeCsvField).join(',')),
+    csvHeaders.map(escapeCsvField).join(','),
+    ...csvRows.map(row => row.map(escapeCsvField).join(',')),
   ].join('\n');
 
   const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -20,17 +39,17 @@ export function downloadAsCSV(
 }
 
 /**
- * Download data as a JSON file
+ * Download data as a JSON file (typed values are kept as-is)
  */
 export function downloadAsJSON(
   headers: string[],
-  rows: string[][],
+  rows: FieldValue[][],
   filename: string = 'extracted-data'
 ): void {
   const data = rows.map(row => {
-    const obj: Record<string, string> = {};
+    const obj: Record<string, FieldValue> = {};
     headers.forEach((header, index) => {
-      obj[header] = row[index] || '';
+      obj[header] = row[index] ?? '';
     });
     return obj;
   });
@@ -40,6 +59,18 @@ export function downloadAsJSON(
   downloadBlob(blob, `${filename}.json`);
 }
 
+/**
+ * Flatten a typed value into a CSV cell (plain numbers, "; "-joined lists)
+ */
+function toCsvValue(value: FieldValue): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item === 'string') ? value.join('; ') : JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
 /**
  * Escape a CSV field (handle quotes and commas)
  */
@@ -50,6 +81,18 @@ function escapeCsvField(field: string): string {
   return field;
 }
 
+/**
+ * Download a file the server stores (e.g. a session artifact)
+ */
+export function downloadFromUrl(url: string, filename: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
 /**
  * Trigger download of a blob
  */
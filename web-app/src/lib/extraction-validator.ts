@@ -6,10 +6,13 @@
  * - Expected row count (minimum rows requested)
  * - Empty field detection
  * - Column consistency
+ * - Field types (when an extraction schema is given)
  */
 
+import { coerceValue, type ExtractionSchema } from './field-types';
+
 export interface ValidationIssue {
-  type: 'missing_column' | 'empty_field' | 'insufficient_rows' | 'inconsistent_columns';
+  type: 'missing_column' | 'empty_field' | 'insufficient_rows' | 'inconsistent_columns' | 'invalid_type';
   message: string;
   severity: 'error' | 'warning';
   details?: {
@@ -28,16 +31,31 @@ export interface ValidationResult {
 }
 
 export interface ValidationParams {
-  data: Record<string, string>[];
+  data: Array<Record<string, unknown>>;
   expectedColumns?: string[];
   expectedMinRows?: number;
+  schema?: ExtractionSchema;
+}
+
+/**
+ * Validation outcome as reported to the model (extractData, runExtractor)
+ */
+export interface ExtractionReport {
+  success: boolean;
+  rowCount: number;
+  validRowCount: number;
+  validation: {
+    isValid: boolean;
+    issues: Array<Pick<ValidationIssue, 'type' | 'message' | 'severity'>>;
+  };
+  message: string;
 }
 
 /**
  * Validate extracted data against expectations
  */
 export function validateExtraction(params: ValidationParams): ValidationResult {
-  const { data, expectedColumns, expectedMinRows } = params;
+  const { data, expectedColumns, expectedMinRows, schema } = params;
   const issues: ValidationIssue[] = [];
 
   // Handle empty data
@@ -105,7 +123,8 @@ export function validateExtraction(params: ValidationParams): ValidationResult {
     const fields = Object.keys(row);
     const emptyFields = fields.filter(key => {
       const value = row[key];
-      return value === null || value === undefined || String(value).trim() === '';
+      return value === null || value === undefined || String(value).trim() === ''
+        || (Array.isArray(value) && value.length === 0);
     });
 
     if (emptyFields.length === 0) {
@@ -172,6 +191,32 @@ export function validateExtraction(params: ValidationParams): ValidationResult {
     }
   }
 
+  // 5. Check field types
+  if (schema) {
+    for (const [field, spec] of Object.entries(schema)) {
+      const badRows: number[] = [];
+      let firstError = '';
+      data.forEach((row, index) => {
+        const result = coerceValue(row[field], spec);
+        if (!result.ok) {
+          badRows.push(index + 1);
+          firstError = firstError || result.error;
+        }
+      });
+
+      if (badRows.length > 0) {
+        issues.push({
+          type: 'invalid_type',
+          message: badRows.length === 1
+            ? `Row ${badRows[0]} ${field} is not a valid ${spec.type}: ${firstError}`
+            : `${badRows.length} rows have an invalid ${spec.type} in ${field} (e.g. ${firstError})`,
+          severity: badRows.length === data.length ? 'error' : 'warning',
+          details: { rowIndex: badRows[0], fields: [field] },
+        });
+      }
+    }
+  }
+
   // Determine overall validity (only errors make it invalid)
   const hasErrors = issues.some(i => i.severity === 'error');
 
@@ -183,6 +228,28 @@ export function validateExtraction(params: ValidationParams): ValidationResult {
   };
 }
 
+/**
+ * Validate extracted data and build the report returned to the model
+ */
+export function buildExtractionReport(params: ValidationParams): ExtractionReport {
+  const validation = validateExtraction(params);
+
+  return {
+    success: validation.isValid,
+    rowCount: params.data?.length ?? 0,
+    validRowCount: validation.validRows,
+    validation: {
+      isValid: validation.isValid,
+      issues: validation.issues.map(i => ({
+        type: i.type,
+        message: i.message,
+        severity: i.severity,
+      })),
+    },
+    message: formatValidationMessage(validation),
+  };
+}
+
 /**
  * Simple Levenshtein distance for fuzzy column matching
  */
@@ -5,16 +5,26 @@
  * Only generates code when validation passes.
  */
 
+import type { ExtractorApiSource, ExtractorSelectors } from './extractor-manifest';
+import type { ExtractionSchema, FieldSpec } from './field-types';
+
+// Either selectors (DOM extractor) or api (JSON API extractor) is set
 export interface ExtractorConfig {
   name: string;
   urlPattern: string;
-  selectors: {
-    container: string;
-    fields: Record<string, string>;
-  };
-  dataTypes?: Record<string, 'string' | 'number' | 'boolean'>;
+  selectors?: ExtractorSelectors;
+  api?: ExtractorApiSource;
+  dataTypes?: ExtractionSchema;
 }
 
+// Field types whose text is converted with parseField() at runtime
+const PARSED_TYPES = ['number', 'boolean', 'currency', 'date', 'enum'];
+
+// Names come from the model (and so possibly from page content) and end up in the
+// generated file - extractor names in its doc comment, field names as object keys
+const EXTRACTOR_NAME_PATTERN = /^[\w .,()&'-]{1,80}$/;
+const FIELD_NAME_PATTERN = /^[A-Za-z_]\w{0,63}$/;
+
 /**
  * Convert a name to a URL-safe slug
  */
@@ -41,18 +51,43 @@ function toPascalCase(slug: string): string {
  * Generate TypeScript extractor code
  */
 export function generateExtractorCode(config: ExtractorConfig): string {
-  const { name, urlPattern, selectors, dataTypes = {} } = config;
+  const { name, urlPattern, selectors, api, dataTypes = {} } = config;
+  if (!EXTRACTOR_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid extractor name: ${JSON.stringify(name)} (letters, digits, spaces and .,()&'- only)`);
+  }
+  const invalidField = Object.keys(selectors?.fields ?? api?.fields ?? {}).find(field => !FIELD_NAME_PATTERN.test(field));
+  if (invalidField !== undefined) {
+    throw new Error(`Invalid field name: ${JSON.stringify(invalidField)} (use identifiers like "price" or "product_name")`);
+  }
+  if (!selectors) {
+    if (!api) {
+      throw new Error('Extractor needs selectors or an api source');
+    }
+    return generateApiExtractorCode({ name, urlPattern, api, dataTypes });
+  }
   const interfaceName = toPascalCase(slugify(name)) + 'Data';
   const fieldNames = Object.keys(selectors.fields);
 
-  // Generate interface fields
+  const specFor = (field: string): FieldSpec => dataTypes[field] || { type: 'string' };
+
+  // Generate interface fields (parsed fields keep their text when parsing fails)
   const interfaceFields = fieldNames
     .map(field => {
-      const type = dataTypes[field] || 'string';
-      return `  ${field}: ${type};`;
+      const spec = specFor(field);
+      return `  ${field}: ${PARSED_TYPES.includes(spec.type) ? toParsedTsType(spec) : toTsType(spec)};`;
     })
     .join('\n');
 
+  // Typed fields need the shared parser
+  const specs = fieldNames.map(specFor);
+  const typeImports = [
+    ...(specs.some(spec => PARSED_TYPES.includes(spec.type)) ? ['parseField'] : []),
+    ...(specs.some(spec => spec.type === 'currency') ? ['type CurrencyValue'] : []),
+  ];
+  const fieldTypesImport = typeImports.length > 0
+    ? `\nimport { ${typeImports.join(', ')} } from '../src/lib/field-types';`
+    : '';
+
   // Generate selector config
   const selectorFields = fieldNames
     .map(field => `    ${field}: '${escapeString(selectors.fields[field])}',`)
@@ -60,10 +95,7 @@ export function generateExtractorCode(config: ExtractorConfig): string {
 
   // Generate extraction logic
   const extractionFields = fieldNames
-    .map(field => {
-      const selector = selectors.fields[field];
-      return `      ${field}: await item.$eval('${escapeString(selector)}', el => el.textContent?.trim() ?? ''),`;
-    })
+    .map(field => `      ${field}: ${toExtractionExpression(selectors.fields[field], specFor(field))},`)
     .join('\n');
 
   const date = new Date().toISOString().split('T')[0];
@@ -76,7 +108,7 @@ export function generateExtractorCode(config: ExtractorConfig): string {
  *   import { extract } from './${slugify(name)}';
  *   const data = await extract(page);
  */
-import type { Page } from 'playwright';
+import type { Page } from 'playwright';${fieldTypesImport}
 
 export interface ${interfaceName} {
 ${interfaceFields}
@@ -111,7 +143,119 @@ ${extractionFields}
   return data;
 }
 
+${generateSharedFunctions(interfaceName)}`;
+}
+
 /**
+ * Generate TypeScript code for an extractor that reads a JSON API response
+ * The generated extract() reloads the page and maps the items of the first
+ * matching response.
+ */
+function generateApiExtractorCode({
+  name, urlPattern, api, dataTypes,
+}: { name: string; urlPattern: string; api: ExtractorApiSource; dataTypes: ExtractionSchema }): string {
+  const interfaceName = toPascalCase(slugify(name)) + 'Data';
+  const fieldNames = Object.keys(api.fields);
+
+  const specFor = (field: string): FieldSpec => dataTypes[field] || { type: 'string' };
+
+  const interfaceFields = fieldNames
+    .map(field => {
+      const spec = specFor(field);
+      return `  ${field}: ${spec.type === 'string' ? 'string' : toParsedTsType(spec)};`;
+    })
+    .join('\n');
+
+  // API values keep their JSON types - typed fields still go through the shared parser
+  const specs = fieldNames.map(specFor);
+  const typeImports = [
+    ...(specs.some(spec => spec.type !== 'string') ? ['parseField'] : []),
+    ...(specs.some(spec => spec.type === 'currency') ? ['type CurrencyValue'] : []),
+  ];
+  const fieldTypesImport = typeImports.length > 0
+    ? `\nimport { ${typeImports.join(', ')} } from '../src/lib/field-types';`
+    : '';
+
+  const fieldPaths = fieldNames
+    .map(field => `      ${field}: '${escapeString(api.fields[field])}',`)
+    .join('\n');
+
+  const extractionFields = fieldNames
+    .map(field => {
+      const value = `getPath(item, config.api.fields[${JSON.stringify(field)}])`;
+      return specFor(field).type === 'string'
+        ? `    ${field}: String(${value} ?? ''),`
+        : `    ${field}: parseField(${value}, ${formatSpec(specFor(field))}) as ${toParsedTsType(specFor(field))},`;
+    })
+    .join('\n');
+
+  const date = new Date().toISOString().split('T')[0];
+
+  return `/**
+ * ${name} Extractor
+ * Auto-generated by Manus on ${date}
+ * Reads the site's JSON API response instead of the rendered page.
+ *
+ * Usage:
+ *   import { extract } from './${slugify(name)}';
+ *   const data = await extract(page);
+ */
+import type { Page } from 'playwright';${fieldTypesImport}
+
+export interface ${interfaceName} {
+${interfaceFields}
+}
+
+export const config = {
+  name: '${escapeString(name)}',
+  urlPattern: ${formatUrlPattern(urlPattern)},
+  api: {
+    url: ${formatApiUrlPattern(api.urlPattern)},
+    itemsPath: '${escapeString(api.itemsPath)}',
+    fields: {
+${fieldPaths}
+    },
+  },
+};
+
+/**
+ * Read a dot path ("data.products", "items.0.price") from a JSON value
+ */
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').filter(Boolean).reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Extract data from the page's API response (reloads the page to capture it)
+ */
+export async function extract(page: Page): Promise<${interfaceName}[]> {
+  const [response] = await Promise.all([
+    page.waitForResponse(r => config.api.url.test(r.url()) && r.ok()),
+    page.reload(),
+  ]);
+
+  const items = getPath(await response.json(), config.api.itemsPath);
+  if (!Array.isArray(items)) {
+    console.warn(\`No items at \${config.api.itemsPath}\`);
+    return [];
+  }
+
+  return items.map(item => ({
+${extractionFields}
+  }));
+}
+
+${generateSharedFunctions(interfaceName)}`;
+}
+
+/**
+ * matches() and validate(), shared by DOM and API extractors
+ */
+function generateSharedFunctions(interfaceName: string): string {
+  return `/**
  * Check if a URL matches this extractor's pattern
  */
 export function matches(url: string): boolean {
@@ -130,7 +274,7 @@ export function validate(data: ${interfaceName}[]): { valid: boolean; issues: st
 
   data.forEach((item, index) => {
     const emptyFields = Object.entries(item)
-      .filter(([_, value]) => !value || String(value).trim() === '')
+      .filter(([_, value]) => value === null || value === undefined || String(value).trim() === '')
       .map(([key]) => key);
 
     if (emptyFields.length > 0) {
@@ -146,6 +290,74 @@ export function validate(data: ${interfaceName}[]): { valid: boolean; issues: st
 `;
 }
 
+/**
+ * TypeScript type for a field in the generated data interface
+ */
+function toTsType(spec: FieldSpec): string {
+  switch (spec.type) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'currency':
+      return 'CurrencyValue';
+    case 'enum':
+      return spec.values && spec.values.length > 0
+        ? spec.values.map(v => `'${escapeString(v)}'`).join(' | ')
+        : 'string';
+    case 'string[]':
+      return 'string[]';
+    case 'object[]':
+      return 'Array<{ text: string; href: string }>';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * TypeScript type of a field read through parseField(), which returns the raw
+ * value when it can't be parsed and null when it is empty
+ */
+function toParsedTsType(spec: FieldSpec): string {
+  return `${toTsType(spec)} | string | null`;
+}
+
+/**
+ * Expression that reads a field from a container element in the generated extract()
+ */
+function toExtractionExpression(selector: string, spec: FieldSpec): string {
+  const sel = escapeString(selector);
+
+  switch (spec.type) {
+    case 'url':
+      return `await item.$eval('${sel}', el => (el as HTMLAnchorElement).href || el.textContent?.trim() || '')`;
+    case 'string[]':
+      return `await item.$$eval('${sel}', els => els.map(el => el.textContent?.trim() ?? '').filter(Boolean))`;
+    case 'object[]':
+      return `await item.$$eval('${sel}', els => els.map(el => ({ text: el.textContent?.trim() ?? '', href: el.getAttribute('href') ?? '' })))`;
+  }
+
+  const text = `await item.$eval('${sel}', el => el.textContent?.trim() ?? '')`;
+  if (!PARSED_TYPES.includes(spec.type)) {
+    return text;
+  }
+  return `parseField(${text}, ${formatSpec(spec)}) as ${toParsedTsType(spec)}`;
+}
+
+/**
+ * Format a field spec as an object literal for generated code
+ */
+function formatSpec(spec: FieldSpec): string {
+  const parts = [`type: '${spec.type}'`];
+  if (spec.values && spec.values.length > 0) {
+    parts.push(`values: [${spec.values.map(v => `'${escapeString(v)}'`).join(', ')}]`);
+  }
+  if (spec.currency) {
+    parts.push(`currency: '${escapeString(spec.currency)}'`);
+  }
+  return `{ ${parts.join(', ')} }`;
+}
+
 /**
  * Escape string for use in generated code
  */
@@ -159,18 +371,43 @@ function escapeString(str: string): string {
 }
 
 /**
- * Format URL pattern as regex literal or string
+ * Format a regex for generated code
+ * The pattern is compiled here first (invalid patterns are rejected) and
+ * emitted as JSON strings, so no part of it can end up as code.
+ */
+function formatRegExp(source: string, flags = ''): string {
+  try {
+    new RegExp(source, flags);
+  } catch {
+    throw new Error(`Invalid URL pattern: ${JSON.stringify(source)}`);
+  }
+  return `new RegExp(${JSON.stringify(source)}, ${JSON.stringify(flags)})`;
+}
+
+/**
+ * Format URL pattern as a regex
  */
 function formatUrlPattern(pattern: string): string {
-  // If it looks like a regex (contains regex special chars), format as regex
+  // If it looks like a regex (contains regex special chars), use it as one
   if (/[.*+?^${}()|[\]\\]/.test(pattern)) {
-    // Escape forward slashes for regex literal
-    const escaped = pattern.replace(/\//g, '\\/');
-    return `/${escaped}/`;
+    return formatRegExp(pattern);
   }
   // Otherwise, create a regex that matches the domain
   const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  return `/^https?:\\/\\/[^/]*${escaped}/i`;
+  return formatRegExp(`^https?://[^/]*${escaped}`, 'i');
+}
+
+/**
+ * Format an API URL pattern (substring, glob with *, or /regex/) as a regex
+ */
+function formatApiUrlPattern(pattern: string): string {
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    return formatRegExp(pattern.slice(1, -1));
+  }
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return pattern.includes('*')
+    ? formatRegExp(`^${escaped.replace(/\*/g, '.*')}$`)
+    : formatRegExp(escaped);
 }
 
 /**
@@ -7,13 +7,35 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { ExtractionSchema } from './field-types';
 
 const MANIFEST_PATH = './extractors/manifest.json';
 
+export interface ExtractorSelectors {
+  container: string;
+  fields: Record<string, string>;
+}
+
+// API-backed extractor: rows come from a recorded JSON response instead of the DOM
+export interface ExtractorApiSource {
+  // Matched against the request URL (substring, glob with *, or /regex/)
+  urlPattern: string;
+  // Dot path to the array of items in the response body, e.g. "data.products"
+  itemsPath: string;
+  // Field name -> dot path inside each item, e.g. { price: "price.amount" }
+  fields: Record<string, string>;
+}
+
 export interface ExtractorEntry {
   name: string;
   urlPattern: string;
   fields: string[];
+  // Stored so the extractor can be run in the live tab (runExtractor tool)
+  selectors?: ExtractorSelectors;
+  // Or read from the page's JSON API (networkRequests)
+  api?: ExtractorApiSource;
+  // Field types applied to scraped values (fields not listed stay strings)
+  schema?: ExtractionSchema;
   createdAt: string;
 }
 
@@ -0,0 +1,160 @@
+/**
+ * Saved extractor runner (client-side)
+ *
+ * Runs a saved extractor's stored container/field selectors inside the
+ * target tab through the extension (or maps the page's recorded JSON API
+ * response for API extractors), then validates the rows the same way the
+ * extractData tool does.
+ */
+
+import type { ExtractorApiSource, ExtractorEntry } from './extractor-manifest';
+import { buildExtractionReport } from './extraction-validator';
+import { applySchema } from './field-types';
+import { extractApiRows, type NetworkRequestSummary } from './network-capture';
+
+type ExecuteTool = (
+  toolName: string,
+  args: Record<string, unknown>,
+  timeoutMs?: number
+) => Promise<{ success: boolean; data?: unknown; error?: string; url?: unknown }>;
+
+export interface RunExtractorInput {
+  name: string;
+  expectedMinRows?: number;
+  tabId?: number;
+  frame?: 'all' | number;
+}
+
+export interface CrawlInput extends RunExtractorInput {
+  nextSelector?: string;
+  urlTemplate?: string;
+  startPage?: number;
+  maxPages?: number;
+  delayMs?: number;
+}
+
+// Per-page allowance on top of the configured delay (page load + extraction)
+const CRAWL_PAGE_TIMEOUT = 35000;
+
+/**
+ * Look up an extractor by name via the extractors API
+ */
+export async function fetchExtractor(name: string): Promise<ExtractorEntry | null> {
+  const response = await fetch(`/api/extractors?name=${encodeURIComponent(name)}`);
+  if (!response.ok) return null;
+  return response.json();
+}
+
+/**
+ * Run a saved extractor in the live tab and validate the rows
+ */
+export async function runExtractorInTab(executeTool: ExecuteTool, { name, expectedMinRows, tabId, frame }: RunExtractorInput) {
+  const entry = await fetchExtractor(name);
+  if (!entry) {
+    return { success: false, error: `Extractor not found: ${name}` };
+  }
+  if (entry.api) {
+    const apiRows = await readApiRows(executeTool, entry.api, tabId);
+    if ('error' in apiRows) {
+      return { success: false, error: apiRows.error };
+    }
+    return {
+      ...buildExtractionReport({ data: apiRows.rows, expectedColumns: entry.fields, expectedMinRows, schema: entry.schema }),
+      data: applySchema(apiRows.rows, entry.schema),
+      source: apiRows.source,
+      url: apiRows.url,
+    };
+  }
+  if (!entry.selectors) {
+    return { success: false, error: `Extractor ${name} has no stored selectors. Use extract() instead.` };
+  }
+
+  const result = await executeTool('runExtractor', {
+    container: entry.selectors.container,
+    fields: entry.selectors.fields,
+    tabId,
+    frame,
+  });
+  if (!result.success || !Array.isArray(result.data)) {
+    return { success: false, error: result.error || 'Extractor run failed' };
+  }
+
+  const rows = result.data as Record<string, string>[];
+  return {
+    ...buildExtractionReport({ data: rows, expectedColumns: entry.fields, expectedMinRows, schema: entry.schema }),
+    data: applySchema(rows, entry.schema),
+    url: result.url,
+  };
+}
+
+/**
+ * Read an API extractor's rows from the latest matching response recorded in the tab
+ */
+async function readApiRows(executeTool: ExecuteTool, api: ExtractorApiSource, tabId?: number) {
+  const list = await executeTool('networkRequests', { urlPattern: api.urlPattern, tabId }) as {
+    success: boolean;
+    error?: string;
+    requests?: NetworkRequestSummary[];
+  };
+  if (!list.success) {
+    return { error: list.error || 'Listing network requests failed' };
+  }
+  const latest = list.requests?.at(-1);
+  if (!latest) {
+    return { error: `No recorded response matches ${api.urlPattern} - reload the page so the API call is recorded, then run the extractor again` };
+  }
+
+  const response = await executeTool('networkRequests', { requestId: latest.requestId }) as {
+    success: boolean;
+    error?: string;
+    body?: string;
+    url?: unknown;
+  };
+  if (!response.success || typeof response.body !== 'string') {
+    return { error: response.error || 'Reading the API response failed' };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(response.body);
+  } catch {
+    return { error: `Response from ${latest.url} is not JSON` };
+  }
+  const mapped = extractApiRows(json, api);
+  return 'error' in mapped ? mapped : { ...mapped, source: latest.url, url: response.url };
+}
+
+/**
+ * Crawl paginated pages in the live tab with a saved extractor
+ * Progress is reported under progressId (CRAWL_PROGRESS messages).
+ */
+export async function crawlInTab(executeTool: ExecuteTool, input: CrawlInput, progressId: string) {
+  const { name, expectedMinRows, maxPages = 5, delayMs = 1000, ...pagination } = input;
+
+  const entry = await fetchExtractor(name);
+  if (!entry) {
+    return { success: false, error: `Extractor not found: ${name}` };
+  }
+  if (!entry.selectors) {
+    return { success: false, error: `Extractor ${name} has no stored selectors` };
+  }
+
+  const result = await executeTool('crawl', {
+    ...pagination,
+    container: entry.selectors.container,
+    fields: entry.selectors.fields,
+    maxPages,
+    delayMs,
+    progressId,
+  }, maxPages * (delayMs + CRAWL_PAGE_TIMEOUT));
+  if (!result.success || !Array.isArray(result.data)) {
+    return { success: false, error: result.error || 'Crawl failed' };
+  }
+
+  const { data: rows, ...crawlInfo } = result as typeof result & { data: Record<string, string>[] };
+  return {
+    ...crawlInfo,
+    ...buildExtractionReport({ data: rows, expectedColumns: entry.fields, expectedMinRows, schema: entry.schema }),
+    data: applySchema(rows, entry.schema),
+  };
+}
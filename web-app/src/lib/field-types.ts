@@ -0,0 +1,293 @@
+/**
+ * Typed extraction fields
+ *
+ * Values scraped from a page arrive as text ("$129,900", "2026-01-31",
+ * "S, M, L"). An extraction schema maps field names to a FieldSpec so the
+ * values can be coerced into numbers, currency amounts, URLs, dates, enums
+ * and arrays before they are validated, displayed and exported.
+ */
+
+export const FIELD_TYPES = [
+  'string',
+  'number',
+  'boolean',
+  'currency',
+  'url',
+  'date',
+  'enum',
+  'string[]',
+  'object[]',
+] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+export interface FieldSpec {
+  type: FieldType;
+  // enum: allowed values
+  values?: string[];
+  // currency: ISO 4217 code for amounts shown without one (e.g. "$" on a TWD site)
+  currency?: string;
+}
+
+export type ExtractionSchema = Record<string, FieldSpec>;
+
+export interface CurrencyValue {
+  amount: number;
+  currency: string;
+}
+
+export type FieldValue =
+  | string
+  | number
+  | boolean
+  | null
+  | CurrencyValue
+  | string[]
+  | Record<string, unknown>[];
+
+export type ExtractedRow = Record<string, FieldValue>;
+
+export type CoerceResult =
+  | { ok: true; value: FieldValue }
+  | { ok: false; error: string };
+
+// Checked in order: explicit prefixes before the bare symbols they contain
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['NT$', 'TWD'],
+  ['US$', 'USD'],
+  ['HK$', 'HKD'],
+  ['A$', 'AUD'],
+  ['C$', 'CAD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₩', 'KRW'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+];
+
+// ISO codes recognized in the text (other three-letter capitals are words like "NEW")
+const CURRENCY_CODES = new Set(CURRENCY_SYMBOLS.map(([, code]) => code));
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'in stock', 'available'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'out of stock', 'unavailable'];
+
+function isEmpty(raw: unknown): boolean {
+  return raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '');
+}
+
+function isCurrencyValue(value: unknown): value is CurrencyValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as CurrencyValue).amount === 'number';
+}
+
+/**
+ * Parse the first number in display text ("$129,900", "1.234,56 €", "-3.5%",
+ * "4.5 (1,234 reviews)" -> 4.5)
+ * The last of "," and "." is the decimal separator when both appear.
+ */
+export function parseNumber(text: string): number | null {
+  const token = text.match(/-?\d[\d.,]*/);
+  if (!token) return null;
+  let cleaned = token[0];
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    // "129,900" groups thousands, "12,5" is a decimal
+    cleaned = /,\d{3}(?!\d)/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  }
+
+  // Drop trailing separators left over from text like "1,299."
+  const value = parseFloat(cleaned.replace(/[.,]+$/, ''));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Detect the currency code in display text
+ * A known ISO code in the text wins, then the schema's code, then a symbol.
+ */
+function detectCurrency(text: string, fallback?: string): string | null {
+  const known = fallback ? new Set([...CURRENCY_CODES, fallback.toUpperCase()]) : CURRENCY_CODES;
+  const code = (text.match(/\b[A-Z]{3}\b/g) ?? []).find(word => known.has(word));
+  if (code) return code;
+
+  const prefixed = CURRENCY_SYMBOLS.find(([symbol]) => symbol.length > 1 && text.includes(symbol));
+  if (prefixed) return prefixed[1];
+
+  if (fallback) return fallback.toUpperCase();
+
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => text.includes(s));
+  return symbol ? symbol[1] : null;
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(/\s*(?:[,;\n|]|\s\/\s)\s*/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Coerce a raw extracted value to its field type
+ * Empty values coerce to null - empty fields are reported by validation.
+ */
+export function coerceValue(raw: unknown, spec: FieldSpec): CoerceResult {
+  if (isEmpty(raw) || (Array.isArray(raw) && raw.length === 0)) {
+    return { ok: true, value: null };
+  }
+  const text = typeof raw === 'string' ? raw.trim() : '';
+
+  switch (spec.type) {
+    case 'string':
+      return { ok: true, value: typeof raw === 'object' ? JSON.stringify(raw) : String(raw) };
+
+    case 'number': {
+      if (typeof raw === 'number') return { ok: true, value: raw };
+      if (isCurrencyValue(raw)) return { ok: true, value: raw.amount };
+      const value = parseNumber(text);
+      return value === null ? { ok: false, error: `"${text}" is not a number` } : { ok: true, value };
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { ok: true, value: raw };
+      const word = String(raw).trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) return { ok: true, value: true };
+      if (FALSE_WORDS.includes(word)) return { ok: true, value: false };
+      return { ok: false, error: `"${word}" is not a boolean` };
+    }
+
+    case 'currency': {
+      if (isCurrencyValue(raw)) {
+        const currency = raw.currency || spec.currency;
+        return currency
+          ? { ok: true, value: { amount: raw.amount, currency: currency.toUpperCase() } }
+          : { ok: false, error: 'Missing currency code' };
+      }
+      const amount = typeof raw === 'number' ? raw : parseNumber(text);
+      if (amount === null) {
+        return { ok: false, error: `"${text}" is not an amount` };
+      }
+      const currency = detectCurrency(text, spec.currency);
+      return currency
+        ? { ok: true, value: { amount, currency } }
+        : { ok: false, error: `No currency in "${text || amount}"` };
+    }
+
+    case 'url': {
+      let url: URL;
+      try {
+        url = new URL(String(raw).trim());
+      } catch {
+        return { ok: false, error: `"${String(raw)}" is not an absolute URL` };
+      }
+      // Rendered as links - javascript: and data: URLs would run in the app
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { ok: false, error: `"${String(raw)}" is not an http(s) URL` };
+      }
+      return { ok: true, value: url.href };
+    }
+
+    case 'date': {
+      if (/^\d{4}-\d{2}-\d{2}/.test(text)) return { ok: true, value: text.slice(0, 10) };
+      const date = new Date(typeof raw === 'number' ? raw : text);
+      if (Number.isNaN(date.getTime())) {
+        return { ok: false, error: `"${text}" is not a date` };
+      }
+      // Local calendar date ("Jan 31, 2026" parses as local midnight)
+      const pad = (n: number) => String(n).padStart(2, '0');
+      return { ok: true, value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` };
+    }
+
+    case 'enum': {
+      const value = String(raw).trim();
+      if (!spec.values || spec.values.length === 0) return { ok: true, value };
+      const match = spec.values.find(v => v.toLowerCase() === value.toLowerCase());
+      return match !== undefined
+        ? { ok: true, value: match }
+        : { ok: false, error: `"${value}" is not one of ${spec.values.join(', ')}` };
+    }
+
+    case 'string[]':
+      if (Array.isArray(raw)) return { ok: true, value: raw.map(item => String(item)) };
+      return { ok: true, value: splitList(String(raw)) };
+
+    case 'object[]': {
+      let value: unknown = raw;
+      if (typeof raw === 'string') {
+        try {
+          value = JSON.parse(raw);
+        } catch {
+          return { ok: false, error: 'Expected a JSON array of objects' };
+        }
+      }
+      if (Array.isArray(value) && value.every(item => typeof item === 'object' && item !== null)) {
+        return { ok: true, value: value as Record<string, unknown>[] };
+      }
+      return { ok: false, error: 'Expected an array of objects' };
+    }
+
+    default:
+      return { ok: true, value: String(raw) };
+  }
+}
+
+/**
+ * Coerce a value, keeping the raw value if it doesn't fit the type
+ * (used by generated extractors and applySchema)
+ */
+export function parseField(raw: unknown, spec: FieldSpec): FieldValue {
+  const result = coerceValue(raw, spec);
+  return result.ok ? result.value : raw as FieldValue;
+}
+
+/**
+ * Coerce every row to the schema
+ * Fields missing from the schema are passed through unchanged.
+ */
+export function applySchema(rows: Array<Record<string, unknown>>, schema?: ExtractionSchema): ExtractedRow[] {
+  if (!schema) return rows as ExtractedRow[];
+
+  return rows.map(row => {
+    const typed: ExtractedRow = {};
+    for (const [field, raw] of Object.entries(row)) {
+      typed[field] = schema[field] ? parseField(raw, schema[field]) : raw as FieldValue;
+    }
+    return typed;
+  });
+}
+
+/**
+ * Infer a column's field type from already-typed values
+ */
+export function inferFieldType(values: unknown[]): FieldType {
+  const present = values.filter(v => !isEmpty(v));
+  if (present.length === 0) return 'string';
+
+  if (present.every(v => typeof v === 'number')) return 'number';
+  if (present.every(v => typeof v === 'boolean')) return 'boolean';
+  if (present.every(isCurrencyValue)) return 'currency';
+  if (present.every(v => Array.isArray(v) && v.every(item => typeof item === 'string'))) return 'string[]';
+  if (present.every(v => Array.isArray(v))) return 'object[]';
+  return 'string';
+}
+
+/**
+ * Format a typed value for display
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return value.toLocaleString('en-US');
+  if (isCurrencyValue(value)) {
+    return `${value.currency} ${value.amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+  }
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item === 'string') ? value.join(', ') : JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
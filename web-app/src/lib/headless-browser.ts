@@ -0,0 +1,2027 @@
+/**
+ * Headless browser runner
+ *
+ * Server-side Playwright/Chromium implementation of the browser tool
+ * contract in chrome-extension/background.js. Results have the same shape
+ * as the extension's, so /api/chat can execute tools itself when no
+ * extension is connected, and saved extractors (extractors/*.ts) can be
+ * run against a real Page.
+ */
+
+import * as fs from 'fs/promises';
+import { AsyncLocalStorage } from 'async_hooks';
+import { chromium, type Browser, type BrowserContext, type Dialog, type ElementHandle, type Frame, type Page, type Request, type Response, type Route } from 'playwright';
+import type { ToolSet } from 'ai';
+import type { ExtractorModule } from '../../extractors';
+import { MAX_CONTENT_CHARS, truncateToolResult } from './tool-result';
+import {
+  blockedResult,
+  evaluateActionPolicy,
+  getInjectionWarnings,
+  type InjectionFinding,
+} from './prompt-injection';
+import { loadManifest, getExtractorByName, type ExtractorApiSource, type ExtractorSelectors } from './extractor-manifest';
+import { buildExtractionReport } from './extraction-validator';
+import { applySchema, type ExtractedRow } from './field-types';
+import { loadDomainPolicy, checkDomain, type DomainAction } from './domain-policy';
+import { saveArtifact } from './artifact-store';
+import { extractApiRows, formatNetworkResult, isJsonMimeType, type NetworkRequestSummary } from './network-capture';
+import type { BrowserDialog, DialogPolicy } from './dialog-policy';
+
+export interface HeadlessToolResult {
+  success: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+// The extension's markdown converter and chunker, evaluated in the page for extract
+const EXTRACT_SCRIPT_PATHS = ['../chrome-extension/dom-markdown.js', '../chrome-extension/dom-chunks.js'];
+// Same chunk cap as the extension's handleExtract; chunks are sized to fit the model's content limit
+const MAX_EXTRACT_CHUNKS = 40;
+const MAX_EXTRACT_CURSORS = 10;
+// scrollUntil stops after this many scrolls in a row without new items (same as the extension)
+const MAX_IDLE_SCROLLS = 2;
+const NAVIGATION_TIMEOUT = 30000;
+// Chat sessions with their own browser context; the least recently used one is closed beyond this
+const MAX_HEADLESS_SESSIONS = 8;
+// Session of tool calls made outside a chat (saved extractor runs)
+const DEFAULT_SESSION = 'default';
+
+// Domain policy action of tools that act on the current page (same as the extension)
+const TOOL_DOMAIN_ACTIONS: Record<string, DomainAction> = {
+  screenshot: 'read',
+  click: 'write',
+  type: 'write',
+  scroll: 'read',
+  scrollUntil: 'read',
+  extract: 'read',
+  runExtractor: 'read',
+  crawl: 'read',
+  snapshot: 'read',
+  archivePage: 'read',
+  consoleLogs: 'read',
+  listFrames: 'read',
+  waitForSelector: 'read',
+  networkRequests: 'read',
+  pressKey: 'write',
+  hover: 'read',
+  selectOption: 'write',
+  check: 'write',
+  uncheck: 'write',
+  dragAndDrop: 'write',
+  handleDialog: 'write',
+};
+
+// Tab tools take tabId as their own argument (not as "act on this tab")
+const TAB_TOOLS = new Set(['listTabs', 'openTab', 'switchTab', 'closeTab']);
+
+// Same snapshot contract as the extension's handleSnapshot
+const REF_ATTRIBUTE = 'data-manus-ref';
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'option',
+  'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'tab',
+  'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem',
+]);
+const MAX_SNAPSHOT_ELEMENTS = 150;
+// Set-of-marks overlay for screenshot({marks: true}), shared with the extension
+const MARKS_SCRIPT_PATH = '../chrome-extension/dom-marks.js';
+const MARKS_OVERLAY_ID = '__manus_marks_overlay__';
+// Full-page screenshots stop here (CSS pixels) - same as the extension
+const MAX_FULL_PAGE_HEIGHT = 8000;
+
+// click/type/extract target: a CSS selector or a ref from snapshot
+interface ElementTarget {
+  selector?: string;
+  ref?: string;
+}
+
+type ExtractType = 'html' | 'text' | 'markdown';
+
+// Defined in the page by dom-chunks.js
+type ChunksWindow = Window & {
+  __manusChunks: (
+    element: Element,
+    type: ExtractType,
+    size: number,
+    options: { mainContent: boolean }
+  ) => { chunks: string[]; length: number; region?: string };
+};
+
+// Chunks of a recent extract, for extractMore
+interface StoredChunks {
+  chunks: string[];
+  format: ExtractType;
+  url: string;
+}
+
+// DOM tools search the top frame by default; 'all' = every frame, number = index in page.frames()
+type FrameTarget = 'all' | number;
+
+// Defined in the page by dom-marks.js
+type MarksWindow = Window & {
+  __manusDrawMarks: (refAttribute: string, overlayId: string) => { marks: Record<string, string> };
+  __manusClearMarks: (overlayId: string) => void;
+};
+
+// Playwright's click/fill already go through CDP input events, so 'trusted' and
+// 'synthetic' behave the same here
+type InputMode = 'synthetic' | 'trusted';
+
+// Key names the extension accepts that Playwright spells differently
+const KEY_ALIASES: Record<string, string> = {
+  Ctrl: 'Control',
+  Cmd: 'Meta',
+  Command: 'Meta',
+  Option: 'Alt',
+  Esc: 'Escape',
+  Return: 'Enter',
+};
+
+// Same cap as the extension's network log
+const MAX_NETWORK_LOG = 200;
+
+// Recorded XHR/fetch response (the Response object reads the body later)
+interface RecordedResponse extends NetworkRequestSummary {
+  response: Response;
+  state: 'pending' | 'finished' | 'failed';
+}
+
+// Same caps as the extension's console buffer
+const MAX_CONSOLE_LOG = 200;
+const MAX_CONSOLE_TEXT = 500;
+
+// Console message or uncaught exception (same shape as the extension's entries)
+interface ConsoleEntry {
+  level: string;
+  text: string;
+  url: string | null;
+  line: number | null;
+  timestamp: number;
+}
+
+// Tools that don't run scripts in the page, so an open dialog doesn't block them
+const DIALOG_FREE_TOOLS = new Set([
+  'handleDialog', 'consoleLogs', 'networkRequests', 'wait', 'listTabs', 'openTab', 'switchTab', 'closeTab',
+]);
+
+// Dialog left open by the 'ask' policy, with the Playwright handle that answers it
+interface OpenDialog {
+  dialog: Dialog;
+  info: BrowserDialog;
+}
+
+interface ConsoleLogsArgs {
+  level?: 'all' | 'warning' | 'error';
+  limit?: number;
+  clear?: boolean;
+}
+
+interface NetworkRequestsArgs {
+  urlPattern?: string;
+  requestId?: string;
+  path?: string;
+  offset?: number;
+  includeNonJson?: boolean;
+  limit?: number;
+}
+
+interface ScreenshotArgs extends ElementTarget {
+  marks?: boolean;
+  fullPage?: boolean;
+  frame?: FrameTarget;
+}
+
+interface DragAndDropArgs {
+  source?: string;
+  sourceRef?: string;
+  target?: string;
+  targetRef?: string;
+  frame?: FrameTarget;
+}
+
+// Browser state of one chat session - concurrent chats must not select, read
+// or close each other's tabs. Tabs are pages of the session's own context
+// (its own cookies), numbered like extension tab ids.
+interface HeadlessSession {
+  context?: Promise<BrowserContext>;
+  tabs: Map<number, Page>;
+  tabId?: number;
+  dialogPolicy: DialogPolicy;
+  dialogListeners: Set<(dialog: BrowserDialog) => void>;
+  extractCursors: Map<string, StoredChunks>;
+}
+
+// Keep one browser per server process (survives dev-server hot reloads)
+const globalForHeadless = globalThis as unknown as {
+  headlessBrowser?: Promise<Browser>;
+  headlessSessions?: Map<string, HeadlessSession>;
+  headlessSessionScope?: AsyncLocalStorage<HeadlessSession>;
+  headlessNextTabId?: number;
+  headlessNetworkLogs?: WeakMap<Page, Map<string, RecordedResponse>>;
+  headlessConsoleLogs?: WeakMap<Page, { since: number; entries: ConsoleEntry[] }>;
+  headlessNextRequestId?: number;
+  headlessOpenDialogs?: WeakMap<Page, OpenDialog>;
+  headlessNextCursorId?: number;
+};
+
+async function getBrowser(): Promise<Browser> {
+  if (!globalForHeadless.headlessBrowser) {
+    globalForHeadless.headlessBrowser = chromium.launch({ headless: true }).catch(error => {
+      globalForHeadless.headlessBrowser = undefined;
+      throw error;
+    });
+  }
+  return globalForHeadless.headlessBrowser;
+}
+
+function getSessionScope(): AsyncLocalStorage<HeadlessSession> {
+  if (!globalForHeadless.headlessSessionScope) {
+    globalForHeadless.headlessSessionScope = new AsyncLocalStorage();
+  }
+  return globalForHeadless.headlessSessionScope;
+}
+
+/**
+ * Get a chat session's browser state, creating it if needed
+ * Beyond MAX_HEADLESS_SESSIONS the least recently used session is closed.
+ */
+function getSessionById(sessionId: string): HeadlessSession {
+  if (!globalForHeadless.headlessSessions) {
+    globalForHeadless.headlessSessions = new Map();
+  }
+  const sessions = globalForHeadless.headlessSessions;
+
+  let session = sessions.get(sessionId);
+  if (session) {
+    // Map order is least recently used first
+    sessions.delete(sessionId);
+  } else {
+    session = { tabs: new Map(), dialogPolicy: 'ask', dialogListeners: new Set(), extractCursors: new Map() };
+  }
+  sessions.set(sessionId, session);
+
+  if (sessions.size > MAX_HEADLESS_SESSIONS) {
+    void closeHeadlessSession(sessions.keys().next().value as string);
+  }
+  return session;
+}
+
+/**
+ * The browser state tools run against - the chat session of the current tool call
+ */
+function getSession(): HeadlessSession {
+  return getSessionScope().getStore() ?? getSessionById(DEFAULT_SESSION);
+}
+
+function getTabs(): Map<number, Page> {
+  return getSession().tabs;
+}
+
+/**
+ * Get the selected tab's page if it is still open
+ */
+function getSelectedPage(): Page | undefined {
+  const tabId = getSession().tabId;
+  const page = tabId === undefined ? undefined : getTabs().get(tabId);
+  return page && !page.isClosed() ? page : undefined;
+}
+
+/**
+ * Open a new tab and select it
+ */
+async function openTab(): Promise<{ tabId: number; page: Page }> {
+  const session = getSession();
+  if (!session.context) {
+    session.context = getBrowser()
+      .then(async browser => {
+        const context = await browser.newContext({ viewport: { width: 1280, height: 800 } });
+        await context.route('**/*', enforceDomainPolicy);
+        return context;
+      })
+      .catch(error => {
+        session.context = undefined;
+        throw error;
+      });
+  }
+  const page = await (await session.context).newPage();
+
+  const tabId = globalForHeadless.headlessNextTabId ?? 1;
+  globalForHeadless.headlessNextTabId = tabId + 1;
+  session.tabs.set(tabId, page);
+  recordNetwork(page);
+  recordConsole(page);
+  answerDialogs(page, tabId, session);
+  session.tabId = tabId;
+  return { tabId, page };
+}
+
+/**
+ * Block requests to hosts the domain policy denies - redirects and the
+ * page's own requests included, not just the URLs tools are given.
+ * Top-level navigations get the full check (allowlist too); everything else
+ * only the denylist, so allowed sites can still load from their CDNs.
+ */
+async function enforceDomainPolicy(route: Route): Promise<void> {
+  const request = route.request();
+  if (!/^https?:/i.test(request.url())) {
+    return route.continue();
+  }
+
+  const policy = await loadDomainPolicy();
+  const topLevel = request.isNavigationRequest() && request.frame().parentFrame() === null;
+  const decision = checkDomain(topLevel ? policy : { ...policy, allow: [] }, request.url(), 'navigate');
+  return decision.allowed ? route.continue() : route.abort('blockedbyclient');
+}
+
+/**
+ * Load a URL in a page, re-checking the domain policy on where it ended up
+ * Returns an error result if the page is blocked, or null once loaded.
+ */
+async function gotoAllowed(page: Page, url: string): Promise<HeadlessToolResult | null> {
+  try {
+    await page.goto(url, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT });
+  } catch (error) {
+    // enforceDomainPolicy aborted the navigation or one of its redirects
+    if (error instanceof Error && error.message.includes('ERR_BLOCKED_BY_CLIENT')) {
+      return policyBlocked(`${url} (or a page it redirects to) is blocked`);
+    }
+    throw error;
+  }
+
+  const decision = checkDomain(await loadDomainPolicy(), page.url(), 'navigate');
+  if (!decision.allowed) {
+    await page.goto('about:blank').catch(() => undefined);
+    return policyBlocked(`redirected to a blocked page: ${decision.reason}`);
+  }
+  return null;
+}
+
+/**
+ * Record a page's console messages and uncaught exceptions for consoleLogs
+ */
+function recordConsole(page: Page): { since: number; entries: ConsoleEntry[] } {
+  if (!globalForHeadless.headlessConsoleLogs) {
+    globalForHeadless.headlessConsoleLogs = new WeakMap();
+  }
+  const existing = globalForHeadless.headlessConsoleLogs.get(page);
+  if (existing) return existing;
+
+  const log = { since: Date.now(), entries: [] as ConsoleEntry[] };
+  globalForHeadless.headlessConsoleLogs.set(page, log);
+
+  const record = (entry: ConsoleEntry) => {
+    log.entries.push({ ...entry, text: entry.text.slice(0, MAX_CONSOLE_TEXT) });
+    if (log.entries.length > MAX_CONSOLE_LOG) {
+      log.entries.shift();
+    }
+  };
+  page.on('console', message => {
+    const location = message.location();
+    record({
+      level: message.type(),
+      text: message.text(),
+      url: location.url || null,
+      line: location.url ? location.lineNumber + 1 : null,
+      timestamp: Date.now(),
+    });
+  });
+  page.on('pageerror', error => {
+    record({ level: 'exception', text: error.stack || error.message, url: null, line: null, timestamp: Date.now() });
+  });
+  return log;
+}
+
+function getOpenDialogs(): WeakMap<Page, OpenDialog> {
+  if (!globalForHeadless.headlessOpenDialogs) {
+    globalForHeadless.headlessOpenDialogs = new WeakMap();
+  }
+  return globalForHeadless.headlessOpenDialogs;
+}
+
+/**
+ * Answer a page's JavaScript dialogs by the dialog policy
+ * With 'ask' the dialog stays open (blocking the page) until handleDialog answers it.
+ */
+function answerDialogs(page: Page, tabId: number, session: HeadlessSession): void {
+  page.on('dialog', async dialog => {
+    const info: BrowserDialog = {
+      tabId,
+      type: dialog.type() as BrowserDialog['type'],
+      message: dialog.message(),
+      url: page.url(),
+      defaultPrompt: dialog.type() === 'prompt' ? dialog.defaultValue() : undefined,
+      openedAt: Date.now(),
+      handled: null,
+    };
+
+    const policy = session.dialogPolicy;
+    if (policy === 'ask') {
+      getOpenDialogs().set(page, { dialog, info });
+    } else {
+      await answerDialog(page, { dialog, info }, policy === 'accept').catch(() => {
+        // The page navigated or closed meanwhile - the dialog is gone
+      });
+    }
+    for (const listener of session.dialogListeners) {
+      listener(info);
+    }
+  });
+}
+
+/**
+ * Answer a dialog (accept also confirms leaving the page for beforeunload)
+ */
+async function answerDialog(page: Page, open: OpenDialog, accept: boolean, promptText?: string): Promise<void> {
+  getOpenDialogs().delete(page);
+  await (accept ? open.dialog.accept(promptText) : open.dialog.dismiss());
+  open.info.handled = accept ? 'accepted' : 'dismissed';
+}
+
+/**
+ * Result of a tool stopped by a dialog waiting for an answer
+ */
+function dialogOpenResult(dialog: BrowserDialog): HeadlessToolResult {
+  return {
+    success: false,
+    dialogOpen: true,
+    error: `A ${dialog.type} dialog is open on the page and blocks it until answered. Call handleDialog to accept or dismiss it, or ask the user.`,
+    dialogs: [{ ...dialog }],
+  };
+}
+
+/**
+ * Record a page's XHR/fetch responses for networkRequests
+ */
+function recordNetwork(page: Page): Map<string, RecordedResponse> {
+  if (!globalForHeadless.headlessNetworkLogs) {
+    globalForHeadless.headlessNetworkLogs = new WeakMap();
+  }
+  const existing = globalForHeadless.headlessNetworkLogs.get(page);
+  if (existing) return existing;
+
+  const log = new Map<string, RecordedResponse>();
+  const byRequest = new Map<Request, RecordedResponse>();
+  globalForHeadless.headlessNetworkLogs.set(page, log);
+
+  page.on('response', response => {
+    const request = response.request();
+    if (request.resourceType() !== 'xhr' && request.resourceType() !== 'fetch') return;
+
+    const requestId = String(globalForHeadless.headlessNextRequestId ?? 1);
+    globalForHeadless.headlessNextRequestId = Number(requestId) + 1;
+    const entry: RecordedResponse = {
+      requestId,
+      method: request.method(),
+      url: response.url(),
+      status: response.status(),
+      mimeType: response.headers()['content-type']?.split(';')[0] ?? null,
+      size: Number(response.headers()['content-length']) || null,
+      response,
+      state: 'pending',
+    };
+    log.set(requestId, entry);
+    byRequest.set(request, entry);
+    if (log.size > MAX_NETWORK_LOG) {
+      log.delete(log.keys().next().value as string);
+    }
+  });
+  const onDone = (state: 'finished' | 'failed') => (request: Request) => {
+    const entry = byRequest.get(request);
+    if (!entry) return;
+    entry.state = state;
+    byRequest.delete(request);
+  };
+  page.on('requestfinished', onDone('finished'));
+  page.on('requestfailed', onDone('failed'));
+
+  return log;
+}
+
+/**
+ * Get the selected tab's page, opening one if needed
+ */
+async function getPage(): Promise<Page> {
+  return getSelectedPage() ?? (await openTab()).page;
+}
+
+/**
+ * Select a tab for later tools
+ * Returns an error message, or null once selected
+ */
+function switchToTab(tabId: number): string | null {
+  const page = getTabs().get(tabId);
+  if (!page || page.isClosed()) {
+    return `Tab ${tabId} not found. Use listTabs to see open tabs.`;
+  }
+  getSession().tabId = tabId;
+  return null;
+}
+
+/**
+ * Close a chat session's browser context and tabs (e.g., when the session is deleted)
+ */
+export async function closeHeadlessSession(sessionId: string): Promise<void> {
+  const session = globalForHeadless.headlessSessions?.get(sessionId);
+  if (!session) return;
+
+  globalForHeadless.headlessSessions?.delete(sessionId);
+  const context = await session.context?.catch(() => undefined);
+  await context?.close().catch(() => {
+    // The browser is already gone
+  });
+}
+
+/**
+ * Close the headless browser (e.g., on shutdown)
+ */
+export async function closeHeadlessBrowser(): Promise<void> {
+  const browser = globalForHeadless.headlessBrowser;
+  globalForHeadless.headlessBrowser = undefined;
+  globalForHeadless.headlessSessions = undefined;
+  if (browser) {
+    await (await browser).close();
+  }
+}
+
+/**
+ * Execute a browser tool in the headless browser
+ */
+export async function executeHeadlessTool(
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<HeadlessToolResult> {
+  try {
+    // A tool given a tabId acts on that tab, which becomes the selected tab
+    if (typeof args.tabId === 'number' && !TAB_TOOLS.has(toolName)) {
+      const tabError = switchToTab(args.tabId);
+      if (tabError) {
+        return { success: false, error: tabError };
+      }
+    }
+
+    const domainError = await checkToolDomain(toolName, args);
+    if (domainError) {
+      return policyBlocked(domainError);
+    }
+
+    // An open dialog blocks every script on its page - report it instead of hanging
+    const selected = getSelectedPage();
+    const openDialog = selected ? getOpenDialogs().get(selected) : undefined;
+    if (openDialog && !DIALOG_FREE_TOOLS.has(toolName)) {
+      return dialogOpenResult(openDialog.info);
+    }
+
+    // Dialogs opening while the tool runs are listed in its result; one left open ends the tool early
+    const dialogs: BrowserDialog[] = [];
+    let resolveLeftOpen: (result: HeadlessToolResult) => void = () => {};
+    const leftOpen = new Promise<HeadlessToolResult>(resolve => {
+      resolveLeftOpen = resolve;
+    });
+    const onDialog = (dialog: BrowserDialog) => {
+      dialogs.push({ ...dialog });
+      if (dialog.handled === null) {
+        resolveLeftOpen(dialogOpenResult(dialog));
+      }
+    };
+    getSession().dialogListeners.add(onDialog);
+    try {
+      const result = await Promise.race([runHeadlessTool(toolName, args), leftOpen]);
+      return dialogs.length > 0 ? { ...result, dialogs } : result;
+    } finally {
+      getSession().dialogListeners.delete(onDialog);
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Headless tool execution failed' };
+  }
+}
+
+/**
+ * Run a tool's handler
+ */
+async function runHeadlessTool(toolName: string, args: Record<string, unknown>): Promise<HeadlessToolResult> {
+  switch (toolName) {
+    case 'navigate':
+      return await handleNavigate(args as { url: string });
+    case 'screenshot':
+      return await handleScreenshot(args as ScreenshotArgs);
+    case 'snapshot':
+      return await handleSnapshot();
+    case 'archivePage':
+      return await handleArchivePage(args as { format?: 'pdf' | 'mhtml' });
+    case 'consoleLogs':
+      return await handleConsoleLogs(args as ConsoleLogsArgs);
+    case 'handleDialog':
+      return await handleHandleDialog(args as { accept?: boolean; promptText?: string });
+    case 'listFrames':
+      return await handleListFrames();
+    case 'click':
+      return await handleClick(args as ElementTarget & { mode?: InputMode; frame?: FrameTarget });
+    case 'type':
+      return await handleType(args as ElementTarget & { text?: string; mode?: InputMode; frame?: FrameTarget });
+    case 'scroll':
+      return await handleScroll(args as { direction?: 'up' | 'down'; amount?: number; frame?: FrameTarget });
+    case 'scrollUntil':
+      return await handleScrollUntil(args as unknown as ScrollUntilArgs);
+    case 'pressKey':
+      return await handlePressKey(args as ElementTarget & { key?: string; frame?: FrameTarget });
+    case 'hover':
+      return await handleHover(args as ElementTarget & { frame?: FrameTarget });
+    case 'selectOption':
+      return await handleSelectOption(args as ElementTarget & { values?: string | string[]; frame?: FrameTarget });
+    case 'check':
+      return await handleSetChecked(args as ElementTarget & { frame?: FrameTarget }, true);
+    case 'uncheck':
+      return await handleSetChecked(args as ElementTarget & { frame?: FrameTarget }, false);
+    case 'dragAndDrop':
+      return await handleDragAndDrop(args as DragAndDropArgs);
+    case 'extract':
+      return await handleExtract(args as ElementTarget & { type?: ExtractType; frame?: FrameTarget });
+    case 'extractMore':
+      return handleExtractMore(args as { cursor?: string });
+    case 'wait':
+      return await handleWait(args as { seconds?: number });
+    case 'waitForSelector':
+      return await handleWaitForSelector(args as WaitForSelectorArgs);
+    case 'waitForUrl':
+      return await handleWaitForUrl(args as { url: string; timeoutMs?: number });
+    case 'waitForNetworkIdle':
+      return await handleWaitForNetworkIdle(args as { idleMs?: number; maxInflight?: number; timeoutMs?: number });
+    case 'networkRequests':
+      return await handleNetworkRequests(args as NetworkRequestsArgs);
+    case 'runExtractor':
+      return await handleRunExtractor(args as { name: string; expectedMinRows?: number; frame?: FrameTarget });
+    case 'crawl':
+      return await handleCrawl(args as unknown as CrawlArgs);
+    case 'listTabs':
+      return await handleListTabs();
+    case 'openTab':
+      return await handleOpenTab(args as { url: string });
+    case 'switchTab':
+      return await handleSwitchTab(args as { tabId: number });
+    case 'closeTab':
+      return await handleCloseTab(args as { tabId?: number });
+    case 'startCapture':
+    case 'stopCapture':
+      return { success: false, error: 'Live capture is not available in headless mode' };
+    default:
+      return { success: false, error: `Unknown tool: ${toolName}` };
+  }
+}
+
+/**
+ * Check a tool call against the domain policy
+ * Returns the reason it is blocked, or null if it may run.
+ */
+async function checkToolDomain(toolName: string, args: Record<string, unknown>): Promise<string | null> {
+  let url: string | undefined;
+  let action: DomainAction | undefined;
+
+  if (toolName === 'navigate' || toolName === 'openTab') {
+    url = typeof args.url === 'string' ? args.url : undefined;
+    action = 'navigate';
+  } else if (TOOL_DOMAIN_ACTIONS[toolName]) {
+    const existing = getSelectedPage();
+    // Nothing loaded yet - there is no page to act on
+    url = existing && existing.url() !== 'about:blank' ? existing.url() : undefined;
+    action = TOOL_DOMAIN_ACTIONS[toolName];
+  }
+
+  if (!url || !action) return null;
+  const policy = await loadDomainPolicy();
+  const decision = checkDomain(policy, url, action);
+  if (!decision.allowed) return decision.reason;
+
+  // iframes can be from any site - check the ones the tool runs in too
+  const page = getSelectedPage();
+  const frame = args.frame as FrameTarget | undefined;
+  if (action === 'navigate' || !page || frame === undefined || frame === 0) return null;
+  const frames = getFrames(page, frame);
+  // A missing frame is reported by the tool itself
+  if (typeof frames === 'string') return null;
+  for (const target of frames) {
+    // about:blank and srcdoc frames belong to the page that created them
+    if (!/^https?:/i.test(target.url())) continue;
+    const frameDecision = checkDomain(policy, target.url(), action);
+    if (!frameDecision.allowed) {
+      const description = `frame ${page.frames().indexOf(target)} (${target.url()}): ${frameDecision.reason}`;
+      return frame === 'all' ? `${description} - pass the frameId of an allowed frame instead of "all"` : description;
+    }
+  }
+  return null;
+}
+
+function policyBlocked(reason: string): HeadlessToolResult {
+  return { success: false, policyBlocked: true, error: `Blocked by domain policy: ${reason}` };
+}
+
+/**
+ * Save a tool's captured file with the session, like the client does for
+ * extension results: the file is replaced by the artifact (screenshots are
+ * read back from it for the model)
+ */
+async function attachArtifact(
+  toolName: string,
+  result: HeadlessToolResult,
+  sessionId?: string
+): Promise<HeadlessToolResult> {
+  if (toolName === 'screenshot' && typeof result.screenshot === 'string' && sessionId) {
+    const artifact = await saveArtifact(sessionId, result.screenshot, toolName).catch(() => undefined);
+    if (!artifact) {
+      return result;
+    }
+    const saved: HeadlessToolResult = { ...result, artifact };
+    delete saved.screenshot;
+    return saved;
+  }
+  if (toolName === 'archivePage' && typeof result.file === 'string') {
+    const artifact = sessionId ? await saveArtifact(sessionId, result.file, 'archive').catch(() => undefined) : undefined;
+    if (!artifact) {
+      return { success: false, error: 'Saving the archive failed' };
+    }
+    const saved: HeadlessToolResult = { ...result, artifact };
+    delete saved.file;
+    return saved;
+  }
+  return result;
+}
+
+/**
+ * Give client-side browser tools a server-side execute function
+ * Results are truncated and policy-checked the same way the client handles
+ * extension results. `findings` holds the injection findings of the current
+ * task and grows as tools read suspicious content. Screenshots and page
+ * archives are saved as artifacts of `sessionId`, and the tools run in its own
+ * browser context. JavaScript dialogs are answered by `dialogPolicy`.
+ */
+export function withHeadlessExecution<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  findings: InjectionFinding[] = [],
+  sessionId?: string,
+  dialogPolicy: DialogPolicy = 'ask'
+): TOOLS {
+  const executable: ToolSet = {};
+  for (const [toolName, tool] of Object.entries(tools)) {
+    executable[toolName] = {
+      ...tool,
+      execute: async (input: Record<string, unknown>) => {
+        const decision = evaluateActionPolicy(toolName, input, findings);
+        if (decision.action === 'block') {
+          return blockedResult(decision.reason);
+        }
+
+        const session = getSessionById(sessionId ?? DEFAULT_SESSION);
+        session.dialogPolicy = dialogPolicy;
+        const raw = await getSessionScope().run(session, () => executeHeadlessTool(toolName, input));
+        const executed = await attachArtifact(toolName, raw, sessionId);
+        const result = truncateToolResult(executed) as Record<string, unknown>;
+        findings.push(...getInjectionWarnings(result));
+        return decision.action === 'flag' ? { ...result, policyWarning: decision.reason } : result;
+      },
+    };
+  }
+  return executable as TOOLS;
+}
+
+async function handleNavigate({ url }: { url: string }): Promise<HeadlessToolResult> {
+  // Ensure URL has protocol
+  let targetUrl = url;
+  if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    targetUrl = 'https://' + url;
+  }
+
+  const page = await getPage();
+  const blocked = await gotoAllowed(page, targetUrl);
+  if (blocked) return blocked;
+
+  // Where it ended up after redirects
+  return {
+    success: true,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+async function handleScreenshot({
+  marks = false, fullPage = false, frame, ...target
+}: ScreenshotArgs): Promise<HeadlessToolResult> {
+  if (marks) {
+    return captureMarkedScreenshot();
+  }
+
+  const page = await getPage();
+  const isElement = !!(target.selector || target.ref);
+  let buffer: Buffer;
+  let truncated = false;
+  if (isElement) {
+    const element = await findElement(page, target, frame);
+    if (typeof element === 'string') {
+      return { success: false, error: element };
+    }
+    buffer = await element.screenshot({ type: 'png' });
+  } else if (fullPage) {
+    // Full pages are large - JPEG keeps them small enough to send to the model
+    const size = await page.evaluate(() => ({
+      width: document.documentElement.scrollWidth,
+      height: document.documentElement.scrollHeight,
+    }));
+    truncated = size.height > MAX_FULL_PAGE_HEIGHT;
+    buffer = await page.screenshot({
+      type: 'jpeg',
+      quality: 80,
+      fullPage: true,
+      clip: { x: 0, y: 0, width: size.width, height: Math.min(size.height, MAX_FULL_PAGE_HEIGHT) },
+    });
+  } else {
+    buffer = await page.screenshot({ type: 'png' });
+  }
+
+  return {
+    success: true,
+    screenshot: `data:image/${fullPage && !isElement ? 'jpeg' : 'png'};base64,` + buffer.toString('base64'),
+    fullPage: fullPage && !isElement,
+    truncated,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+/**
+ * Snapshot the page, draw its refs over the elements and capture it
+ * (same contract as screenshot({marks: true}) in the extension)
+ */
+async function captureMarkedScreenshot(): Promise<HeadlessToolResult> {
+  // Tags the interactive elements with refs
+  const snapshot = await handleSnapshot();
+  const page = await getPage();
+
+  await page.evaluate(await fs.readFile(MARKS_SCRIPT_PATH, 'utf-8'));
+  const { marks } = await page.evaluate(
+    ([refAttribute, overlayId]) => (window as unknown as MarksWindow).__manusDrawMarks(refAttribute, overlayId),
+    [REF_ATTRIBUTE, MARKS_OVERLAY_ID] as const
+  );
+  let buffer: Buffer;
+  try {
+    buffer = await page.screenshot({ type: 'jpeg', quality: 80 });
+  } finally {
+    await page.evaluate(overlayId => (window as unknown as MarksWindow).__manusClearMarks(overlayId), MARKS_OVERLAY_ID);
+  }
+
+  // Off-screen elements have no box - leave them out of the listing too
+  const content = String(snapshot.content)
+    .split('\n')
+    .filter(line => line.slice(1, line.indexOf(']')) in marks)
+    .join('\n');
+
+  return {
+    success: true,
+    screenshot: 'data:image/jpeg;base64,' + buffer.toString('base64'),
+    marks,
+    content,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+/**
+ * Save the page as a PDF print or an MHTML archive
+ * (same contract as archivePage in the extension)
+ */
+async function handleArchivePage({ format = 'pdf' }: { format?: 'pdf' | 'mhtml' }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+
+  let file: string;
+  if (format === 'mhtml') {
+    const session = await page.context().newCDPSession(page);
+    try {
+      const { data } = await session.send('Page.captureSnapshot', { format: 'mhtml' });
+      file = 'data:multipart/related;base64,' + Buffer.from(data, 'utf-8').toString('base64');
+    } finally {
+      await session.detach().catch(() => {});
+    }
+  } else {
+    const buffer = await page.pdf({ printBackground: true });
+    file = 'data:application/pdf;base64,' + buffer.toString('base64');
+  }
+
+  return {
+    success: true,
+    format,
+    file,
+    capturedAt: new Date().toISOString(),
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+/**
+ * Frames a DOM tool searches (same frame argument as the extension)
+ */
+function getFrames(page: Page, frame?: FrameTarget): Frame[] | string {
+  if (frame === 'all') return page.frames();
+  if (frame === undefined) return [page.mainFrame()];
+  const target = page.frames()[frame];
+  return target ? [target] : `Frame ${frame} not found. Use listFrames to see the page's frames.`;
+}
+
+/**
+ * Convert the shared ">>>" shadow-piercing syntax to Playwright's
+ * (Playwright CSS already pierces open shadow roots; ">>" scopes to the host)
+ */
+function toPlaywrightSelector(selector: string): string {
+  return selector.split('>>>').map(part => part.trim()).filter(Boolean).join(' >> ');
+}
+
+/**
+ * Playwright selector for a CSS selector or snapshot ref
+ */
+function resolveQuery({ selector, ref }: ElementTarget): string | { error: string } {
+  if (ref) {
+    return /^e\d+$/.test(ref)
+      ? `[${REF_ATTRIBUTE}="${ref}"]`
+      : { error: `Invalid ref: ${ref}. Use a ref from snapshot, e.g. "e12"` };
+  }
+  return selector ? toPlaywrightSelector(selector) : { error: 'A selector or ref is required' };
+}
+
+/**
+ * Match a URL against a substring, a glob ("*" = any characters) or a /regex/
+ * (same rules as the extension's waitForUrl)
+ */
+function urlMatches(url: string, pattern: string): boolean {
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    try {
+      return new RegExp(pattern.slice(1, -1)).test(url);
+    } catch {
+      return false;
+    }
+  }
+  if (pattern.includes('*')) {
+    const regex = new RegExp('^' + pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$');
+    return regex.test(url);
+  }
+  return url.includes(pattern);
+}
+
+/**
+ * Find the element a click/type/extract call targets
+ */
+async function findElement(
+  page: Page,
+  { selector, ref }: ElementTarget,
+  frame?: FrameTarget
+): Promise<ElementHandle<HTMLElement | SVGElement> | string> {
+  const frames = getFrames(page, frame);
+  if (typeof frames === 'string') {
+    return frames;
+  }
+
+  const query = resolveQuery({ selector, ref });
+  if (typeof query !== 'string') {
+    return query.error;
+  }
+
+  for (const target of frames) {
+    const element = await target.$(query);
+    if (element) return element;
+  }
+  return ref ? `Element not found for ref ${ref} - take a new snapshot` : `Element not found: ${selector}`;
+}
+
+async function handleListFrames(): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const frames = [];
+  for (const [frameId, frame] of page.frames().entries()) {
+    frames.push({
+      frameId,
+      url: frame.url(),
+      title: await frame.title().catch(() => ''),
+      isTop: frame === page.mainFrame(),
+    });
+  }
+
+  return {
+    success: true,
+    frames,
+    url: page.url(),
+  };
+}
+
+/**
+ * List interactive elements from the accessibility tree (CDP) and stamp refs on them
+ */
+async function handleSnapshot(): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const session = await page.context().newCDPSession(page);
+
+  try {
+    const { nodes } = await session.send('Accessibility.getFullAXTree');
+    const interactive = nodes.filter(node =>
+      !node.ignored && node.backendDOMNodeId && INTERACTIVE_ROLES.has(node.role?.value)
+    );
+    const elements = interactive.slice(0, MAX_SNAPSHOT_ELEMENTS);
+
+    // Backend node ids are stable for the element's lifetime, so refs survive re-snapshots
+    await session.send('DOM.getDocument', { depth: 0 });
+    const { nodeIds } = await session.send('DOM.pushNodesByBackendIdsToFrontend', {
+      backendNodeIds: elements.map(node => node.backendDOMNodeId!),
+    });
+
+    const lines: string[] = [];
+    for (let i = 0; i < elements.length; i++) {
+      // 0 = node not in the main document (e.g. inside an iframe)
+      if (!nodeIds[i]) continue;
+
+      const ref = `e${elements[i].backendDOMNodeId}`;
+      await session.send('DOM.setAttributeValue', { nodeId: nodeIds[i], name: REF_ATTRIBUTE, value: ref });
+      lines.push(formatSnapshotLine(ref, elements[i]));
+    }
+
+    return {
+      success: true,
+      content: lines.join('\n'),
+      elements: lines.length,
+      truncated: interactive.length > elements.length,
+      totalElements: interactive.length,
+      url: page.url(),
+      title: await page.title(),
+    };
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
+/**
+ * One snapshot line, e.g. [e42] button "Add to cart" (disabled)
+ */
+function formatSnapshotLine(
+  ref: string,
+  node: { role?: { value?: unknown }; name?: { value?: unknown }; value?: { value?: unknown }; properties?: Array<{ name: string; value: { value?: unknown } }> }
+): string {
+  const name = String(node.name?.value ?? '').replace(/\s+/g, ' ').trim().slice(0, 80);
+  let line = `[${ref}] ${node.role?.value}${name ? ` ${JSON.stringify(name)}` : ''}`;
+
+  const value = node.value?.value;
+  if (value !== undefined && value !== '' && String(value) !== name) {
+    line += ` value=${JSON.stringify(String(value).slice(0, 80))}`;
+  }
+
+  const states: string[] = [];
+  for (const property of node.properties || []) {
+    const propertyValue = property.value?.value;
+    if (['disabled', 'required', 'selected', 'focused'].includes(property.name) && propertyValue === true) {
+      states.push(property.name);
+    } else if (['checked', 'pressed', 'expanded'].includes(property.name) && propertyValue !== undefined) {
+      states.push(`${property.name}=${propertyValue}`);
+    }
+  }
+  if (states.length > 0) {
+    line += ` (${states.join(', ')})`;
+  }
+  return line;
+}
+
+async function handleClick({
+  mode = 'synthetic', frame, ...target
+}: ElementTarget & { mode?: InputMode; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const element = await findElement(page, target, frame);
+  if (typeof element === 'string') {
+    return { success: false, error: element };
+  }
+
+  await element.click();
+
+  // Wait a moment for any reactions
+  await page.waitForTimeout(500);
+
+  // No screenshot - results go straight to the model
+  return {
+    success: true,
+    screenshot: null,
+    url: page.url(),
+    mode,
+  };
+}
+
+async function handleType({
+  text, mode = 'synthetic', frame, ...target
+}: ElementTarget & { text?: string; mode?: InputMode; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const element = await findElement(page, target, frame);
+  if (typeof element === 'string') {
+    return { success: false, error: element };
+  }
+
+  await element.fill(text ?? '');
+  await page.waitForTimeout(300);
+
+  return {
+    success: true,
+    screenshot: null,
+    url: page.url(),
+    mode,
+  };
+}
+
+async function handlePressKey({
+  key, frame, ...target
+}: ElementTarget & { key?: string; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  if (!key) {
+    return { success: false, error: 'key is required' };
+  }
+
+  const page = await getPage();
+  if (target.selector || target.ref) {
+    const element = await findElement(page, target, frame);
+    if (typeof element === 'string') {
+      return { success: false, error: element };
+    }
+    await element.focus();
+  }
+
+  // "Control++" keeps its trailing "+" key
+  const chord = key.replace(/[^+]+/g, part => KEY_ALIASES[part] ?? part);
+  await page.keyboard.press(chord);
+  await page.waitForTimeout(300);
+
+  return {
+    success: true,
+    key,
+    url: page.url(),
+  };
+}
+
+async function handleHover({
+  frame, ...target
+}: ElementTarget & { frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const element = await findElement(page, target, frame);
+  if (typeof element === 'string') {
+    return { success: false, error: element };
+  }
+
+  await element.hover();
+  // Let menus open
+  await page.waitForTimeout(300);
+
+  return {
+    success: true,
+    url: page.url(),
+  };
+}
+
+async function handleSelectOption({
+  values, frame, ...target
+}: ElementTarget & { values?: string | string[]; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const element = await findElement(page, target, frame);
+  if (typeof element === 'string') {
+    return { success: false, error: element };
+  }
+
+  // Match by value, then by label ignoring case - same as the extension
+  const wanted = Array.isArray(values) ? values : values === undefined ? [] : [values];
+  const match = await element.evaluate((el, wantedValues) => {
+    if (!(el instanceof HTMLSelectElement)) {
+      return { error: `Element is a <${el.tagName.toLowerCase()}>, not a <select>` };
+    }
+    const options = Array.from(el.options);
+    const matched: string[] = [];
+    for (const wantedValue of wantedValues) {
+      const normalized = wantedValue.trim().toLowerCase();
+      const option = options.find(o => o.value === wantedValue)
+        || options.find(o => o.label.trim().toLowerCase() === normalized);
+      if (!option) {
+        return { error: `No option "${wantedValue}". Options: ${options.map(o => o.label.trim()).slice(0, 20).join(', ')}` };
+      }
+      matched.push(option.value);
+    }
+    if (matched.length > 1 && !el.multiple) {
+      return { error: 'This <select> allows only one option' };
+    }
+    return { values: matched };
+  }, wanted);
+  if ('error' in match) {
+    return { success: false, error: match.error };
+  }
+
+  await element.selectOption(match.values.map(value => ({ value })));
+  const selected = await element.evaluate(el => Array.from((el as HTMLSelectElement).selectedOptions)
+    .map(o => ({ value: o.value, label: o.label.trim() })));
+
+  return {
+    success: true,
+    selected,
+    url: page.url(),
+  };
+}
+
+async function handleSetChecked(
+  { frame, ...target }: ElementTarget & { frame?: FrameTarget },
+  checked: boolean
+): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const element = await findElement(page, target, frame);
+  if (typeof element === 'string') {
+    return { success: false, error: element };
+  }
+
+  // setChecked clicks only if the state differs and handles ARIA checkboxes
+  await element.setChecked(checked);
+
+  return {
+    success: true,
+    checked: await element.isChecked(),
+    url: page.url(),
+  };
+}
+
+async function handleDragAndDrop({
+  source, sourceRef, target, targetRef, frame,
+}: DragAndDropArgs): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const from = await findElement(page, { selector: source, ref: sourceRef }, frame);
+  if (typeof from === 'string') {
+    return { success: false, error: `Drag source: ${from}` };
+  }
+  const to = await findElement(page, { selector: target, ref: targetRef }, frame);
+  if (typeof to === 'string') {
+    return { success: false, error: `Drag target: ${to}` };
+  }
+
+  // Playwright's mouse also drives native HTML5 drag and drop in Chromium
+  await from.hover();
+  await page.mouse.down();
+  const box = await to.boundingBox();
+  if (!box) {
+    await page.mouse.up();
+    return { success: false, error: 'Drag target is not visible' };
+  }
+  await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2, { steps: 10 });
+  await page.mouse.up();
+  await page.waitForTimeout(300);
+
+  return {
+    success: true,
+    method: 'mouse',
+    screenshot: null,
+    url: page.url(),
+  };
+}
+
+async function handleListTabs(): Promise<HeadlessToolResult> {
+  const tabs = [];
+  for (const [tabId, page] of getTabs()) {
+    if (page.isClosed()) continue;
+    tabs.push({
+      tabId,
+      title: await page.title(),
+      url: page.url(),
+      selected: tabId === getSession().tabId,
+    });
+  }
+
+  return {
+    success: true,
+    tabs,
+    selectedTabId: getSession().tabId ?? null,
+  };
+}
+
+async function handleOpenTab({ url }: { url: string }): Promise<HeadlessToolResult> {
+  const targetUrl = url.startsWith('http://') || url.startsWith('https://') ? url : 'https://' + url;
+
+  const { tabId, page } = await openTab();
+  const blocked = await gotoAllowed(page, targetUrl);
+  if (blocked) return { ...blocked, tabId };
+
+  return {
+    success: true,
+    tabId,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+async function handleSwitchTab({ tabId }: { tabId: number }): Promise<HeadlessToolResult> {
+  const tabError = switchToTab(tabId);
+  if (tabError) {
+    return { success: false, error: tabError };
+  }
+
+  const page = await getPage();
+  return {
+    success: true,
+    tabId,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+async function handleCloseTab({ tabId }: { tabId?: number }): Promise<HeadlessToolResult> {
+  const session = getSession();
+  const closeId = tabId ?? session.tabId;
+  const page = closeId === undefined ? undefined : getTabs().get(closeId);
+  if (closeId === undefined || !page) {
+    return { success: false, error: tabId === undefined ? 'No tab selected' : `Tab ${tabId} not found` };
+  }
+
+  await page.close();
+  session.tabs.delete(closeId);
+  if (closeId === session.tabId) {
+    session.tabId = undefined;
+  }
+
+  return {
+    success: true,
+    closedTabId: closeId,
+    selectedTabId: getSession().tabId ?? null,
+  };
+}
+
+async function handleScroll({
+  direction, amount, frame,
+}: { direction?: 'up' | 'down'; amount?: number; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const scrollAmount = (direction || 'down') === 'down' ? (amount ?? 300) : -(amount ?? 300);
+
+  const frames = getFrames(page, frame);
+  if (typeof frames === 'string') {
+    return { success: false, error: frames };
+  }
+  for (const target of frames) {
+    await target.evaluate((top) => window.scrollBy({ top, behavior: 'smooth' }), scrollAmount);
+  }
+
+  // Wait for scroll to complete
+  await page.waitForTimeout(500);
+
+  return {
+    success: true,
+    screenshot: null,
+    url: page.url(),
+  };
+}
+
+interface ScrollUntilArgs {
+  itemSelector: string;
+  fields?: Record<string, string>;
+  maxItems?: number;
+  timeoutMs?: number;
+  settleMs?: number;
+  frame?: FrameTarget;
+}
+
+/**
+ * Harvest an infinite-scroll feed until no new items load, maxItems is
+ * reached or the timeout passes (same contract as scrollUntil in the extension)
+ */
+async function handleScrollUntil({
+  itemSelector, fields, maxItems = 100, timeoutMs = 30000, settleMs = 800, frame,
+}: ScrollUntilArgs): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const frames = getFrames(page, frame);
+  if (typeof frames === 'string') {
+    return { success: false, error: frames };
+  }
+  const selector = toPlaywrightSelector(itemSelector);
+
+  // Deduplicated by content - virtualized feeds drop items from the DOM as they scroll
+  const items = new Map<string, Record<string, string>>();
+  const startTime = Date.now();
+  let scrollCount = 0;
+  let idleScrolls = 0;
+  let stoppedReason: 'max-items' | 'no-new-items' | 'timeout' | null = null;
+
+  while (!stoppedReason) {
+    const rows = fields
+      ? await extractRows(page, { container: itemSelector, fields }, frame)
+      : await readFeedItems(frames, selector);
+
+    let added = 0;
+    for (const row of rows) {
+      const key = JSON.stringify(row);
+      if (!items.has(key)) {
+        items.set(key, row);
+        added++;
+      }
+    }
+    idleScrolls = added > 0 ? 0 : idleScrolls + 1;
+
+    if (items.size >= maxItems) {
+      stoppedReason = 'max-items';
+    } else if (idleScrolls > MAX_IDLE_SCROLLS) {
+      stoppedReason = 'no-new-items';
+    } else if (Date.now() - startTime >= timeoutMs) {
+      stoppedReason = 'timeout';
+    } else {
+      // Bring the last item to the bottom edge (works for scrollable containers too), then page further
+      for (const target of frames) {
+        const found = target.locator(selector);
+        if (await found.count() > 0) {
+          await found.last().evaluate(el => el.scrollIntoView({ block: 'end', behavior: 'instant' }));
+        }
+        await target.evaluate(() => window.scrollBy({ top: window.innerHeight, behavior: 'instant' }));
+      }
+      scrollCount++;
+      await page.waitForTimeout(settleMs);
+    }
+  }
+
+  return {
+    success: true,
+    data: Array.from(items.values()).slice(0, maxItems),
+    itemCount: Math.min(items.size, maxItems),
+    scrollCount,
+    stoppedReason,
+    elapsedMs: Date.now() - startTime,
+    url: page.url(),
+  };
+}
+
+/**
+ * Feed items as {text, href} - scrollUntil without fields (first frame with items wins)
+ */
+async function readFeedItems(frames: Frame[], selector: string): Promise<Record<string, string>[]> {
+  for (const target of frames) {
+    const rows = await target.$$eval(selector, found => found.map(item => {
+      const link = item.matches('a[href]') ? item : item.querySelector('a[href]');
+      return {
+        text: ((item as HTMLElement).innerText || item.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 300),
+        href: link ? (link as HTMLAnchorElement).href : '',
+      };
+    }));
+    if (rows.length > 0) return rows;
+  }
+  return [];
+}
+
+async function handleExtract({
+  selector, ref, type = 'text', frame,
+}: ElementTarget & { type?: ExtractType; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+
+  const element = selector || ref ? await findElement(page, { selector, ref }, frame) : await page.$('html');
+  if (!element || typeof element === 'string') {
+    return { success: false, error: element || 'Page has no content' };
+  }
+
+  // Content is split into chunks on element boundaries (dom-chunks.js)
+  const ownerFrame = (await element.ownerFrame()) ?? page.mainFrame();
+  for (const scriptPath of EXTRACT_SCRIPT_PATHS) {
+    await ownerFrame.evaluate(await fs.readFile(scriptPath, 'utf-8'));
+  }
+  const result = await element.evaluate((el, [extractType, chunkSize]) => {
+    // Whole-page markdown extracts are narrowed to the main content region
+    const wholePage = el === document.documentElement || el === document.body;
+    return (window as unknown as ChunksWindow).__manusChunks(el, extractType, chunkSize, { mainContent: wholePage });
+  }, [type, MAX_CONTENT_CHARS] as const);
+
+  // The first chunk now, the rest through extractMore({cursor})
+  const chunks = result.chunks.slice(0, MAX_EXTRACT_CHUNKS);
+  const cursorId = storeExtractChunks({ chunks, format: type, url: page.url() });
+
+  return {
+    success: true,
+    data: chunks[0] ?? '',
+    ...chunkPosition(cursorId, 0, chunks.length),
+    truncated: result.chunks.length > MAX_EXTRACT_CHUNKS,
+    originalLength: result.length,
+    format: type,
+    region: result.region,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+/**
+ * Return the next chunk of an earlier extract (cursor from its result)
+ */
+function handleExtractMore({ cursor }: { cursor?: string }): HeadlessToolResult {
+  const [cursorId, index] = String(cursor ?? '').split(':');
+  const stored = getSession().extractCursors.get(cursorId);
+  const chunkIndex = Number(index);
+  if (!stored || !Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= stored.chunks.length) {
+    return { success: false, error: `Unknown or expired cursor: ${cursor} - call extract again` };
+  }
+
+  return {
+    success: true,
+    data: stored.chunks[chunkIndex],
+    ...chunkPosition(cursorId, chunkIndex, stored.chunks.length),
+    format: stored.format,
+    url: stored.url,
+  };
+}
+
+/**
+ * Keep an extract's chunks for extractMore; returns the cursor id
+ */
+function storeExtractChunks(stored: StoredChunks): string {
+  const cursors = getSession().extractCursors;
+  const cursorId = `x${globalForHeadless.headlessNextCursorId ?? 1}`;
+  globalForHeadless.headlessNextCursorId = (globalForHeadless.headlessNextCursorId ?? 1) + 1;
+
+  cursors.set(cursorId, stored);
+  if (cursors.size > MAX_EXTRACT_CURSORS) {
+    cursors.delete(cursors.keys().next().value as string);
+  }
+  return cursorId;
+}
+
+/**
+ * Chunk number, total and the cursor of the next chunk (null after the last)
+ */
+function chunkPosition(cursorId: string, index: number, total: number) {
+  return {
+    chunk: index + 1,
+    totalChunks: total,
+    cursor: index + 1 < total ? `${cursorId}:${index + 1}` : null,
+  };
+}
+
+async function handleWait({ seconds }: { seconds?: number }): Promise<HeadlessToolResult> {
+  const safeSeconds = seconds ?? 1;
+  const page = await getPage();
+  await page.waitForTimeout(safeSeconds * 1000);
+
+  return {
+    success: true,
+    screenshot: null,
+    message: `Waited ${safeSeconds} seconds`,
+  };
+}
+
+/**
+ * Apply container/field selectors to the page (same as runSelectors in background.js)
+ */
+async function extractRows(
+  page: Page,
+  { container, fields }: ExtractorSelectors,
+  frame?: FrameTarget
+): Promise<Record<string, string>[]> {
+  const frames = getFrames(page, frame);
+  if (typeof frames === 'string') {
+    throw new Error(frames);
+  }
+
+  // First frame with items wins (frame 'all')
+  let rows: Record<string, string>[] = [];
+  for (const target of frames) {
+    rows = await target.$$eval(toPlaywrightSelector(container), (items, fieldSels) => {
+      // Field selectors run in the page - resolve ">>>" here (same as dom-query.js)
+      const query = (root: Element, selector: string): Element | null => {
+        let scopes: Array<Element | ShadowRoot> = [root];
+        const parts = selector.split('>>>').map(part => part.trim()).filter(Boolean);
+        for (let i = 0; i < parts.length; i++) {
+          const matches = scopes.flatMap(scope => Array.from(scope.querySelectorAll(parts[i])));
+          if (i === parts.length - 1) return matches[0] || null;
+          scopes = matches.map(host => host.shadowRoot).filter((root): root is ShadowRoot => !!root);
+        }
+        return null;
+      };
+
+      return items.slice(0, 500).map(item => {
+        const row: Record<string, string> = {};
+        for (const [field, sel] of Object.entries(fieldSels)) {
+          const el = query(item, sel);
+          row[field] = el ? (el.textContent || '').trim() : '';
+        }
+        return row;
+      });
+    }, fields);
+    if (rows.length > 0) break;
+  }
+  return rows;
+}
+
+interface WaitForSelectorArgs extends ElementTarget {
+  state?: 'attached' | 'visible' | 'hidden' | 'detached';
+  timeoutMs?: number;
+  frame?: FrameTarget;
+}
+
+async function handleWaitForSelector({
+  state = 'visible', timeoutMs = 10000, frame, ...target
+}: WaitForSelectorArgs): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const frames = getFrames(page, frame);
+  if (typeof frames === 'string') {
+    return { success: false, error: frames };
+  }
+  const query = resolveQuery(target);
+  if (typeof query !== 'string') {
+    return { success: false, error: query.error };
+  }
+
+  const startedAt = Date.now();
+  try {
+    // First frame where the condition holds wins
+    const frameId = await Promise.any(frames.map(async candidate => {
+      await candidate.waitForSelector(query, { state, timeout: timeoutMs });
+      return page.frames().indexOf(candidate);
+    }));
+
+    return {
+      success: true,
+      condition: state,
+      selector: target.selector,
+      ref: target.ref,
+      frameId,
+      elapsedMs: Date.now() - startedAt,
+      url: page.url(),
+    };
+  } catch {
+    return {
+      success: false,
+      timedOut: true,
+      condition: 'timeout',
+      elapsedMs: Date.now() - startedAt,
+      error: `Timed out after ${timeoutMs}ms waiting for ${target.selector || `ref ${target.ref}`} to be ${state}`,
+    };
+  }
+}
+
+async function handleWaitForUrl({ url: pattern, timeoutMs = 10000 }: { url: string; timeoutMs?: number }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const startedAt = Date.now();
+
+  try {
+    await page.waitForURL(url => urlMatches(url.href, pattern), { timeout: timeoutMs, waitUntil: 'commit' });
+  } catch {
+    return {
+      success: false,
+      timedOut: true,
+      condition: 'timeout',
+      elapsedMs: Date.now() - startedAt,
+      url: page.url(),
+      error: `Timed out after ${timeoutMs}ms waiting for the URL to match ${pattern}`,
+    };
+  }
+
+  return {
+    success: true,
+    condition: 'url-match',
+    elapsedMs: Date.now() - startedAt,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+/**
+ * Wait until at most maxInflight requests are open and none started or ended for idleMs
+ * (requests already in flight when the wait starts aren't seen - same as the extension)
+ */
+async function handleWaitForNetworkIdle({
+  idleMs = 500, maxInflight = 0, timeoutMs = 10000,
+}: { idleMs?: number; maxInflight?: number; timeoutMs?: number }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const inflight = new Set<Request>();
+  let lastActivity = Date.now();
+  const onRequest = (request: Request) => {
+    inflight.add(request);
+    lastActivity = Date.now();
+  };
+  const onDone = (request: Request) => {
+    inflight.delete(request);
+    lastActivity = Date.now();
+  };
+
+  page.on('request', onRequest);
+  page.on('requestfinished', onDone);
+  page.on('requestfailed', onDone);
+  const startedAt = Date.now();
+
+  try {
+    while (!(inflight.size <= maxInflight && Date.now() - lastActivity >= idleMs)) {
+      if (Date.now() - startedAt >= timeoutMs) {
+        return {
+          success: false,
+          timedOut: true,
+          condition: 'timeout',
+          elapsedMs: Date.now() - startedAt,
+          inflight: inflight.size,
+          pendingUrls: Array.from(inflight).slice(0, 5).map(request => request.url()),
+          error: `Timed out after ${timeoutMs}ms waiting for the network to be idle`,
+        };
+      }
+      await page.waitForTimeout(100);
+    }
+
+    return {
+      success: true,
+      condition: 'network-idle',
+      elapsedMs: Date.now() - startedAt,
+      inflight: inflight.size,
+      url: page.url(),
+    };
+  } finally {
+    page.off('request', onRequest);
+    page.off('requestfinished', onDone);
+    page.off('requestfailed', onDone);
+  }
+}
+
+/**
+ * List the console messages and uncaught exceptions recorded on the page
+ * (same contract as consoleLogs in the extension)
+ */
+async function handleConsoleLogs({ level = 'all', limit = 50, clear = false }: ConsoleLogsArgs): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const log = recordConsole(page);
+
+  const recorded = log.entries;
+  const matching = recorded.filter(entry => consoleLevelMatches(entry.level, level));
+  const shown = matching.slice(-limit);
+  if (clear) {
+    log.entries = [];
+  }
+
+  return {
+    success: true,
+    // Page-controlled text - wrapped as untrusted by truncateToolResult
+    content: shown.map(formatConsoleEntry).join('\n'),
+    shown: shown.length,
+    total: matching.length,
+    errors: recorded.filter(entry => consoleLevelMatches(entry.level, 'error')).length,
+    warnings: recorded.filter(entry => entry.level === 'warning').length,
+    recordingSince: new Date(log.since).toISOString(),
+    cleared: clear,
+    url: page.url(),
+  };
+}
+
+async function handleHandleDialog({ accept, promptText }: { accept?: boolean; promptText?: string }): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const open = getOpenDialogs().get(page);
+  if (!open) {
+    return { success: false, error: 'No dialog is open on the page' };
+  }
+
+  await answerDialog(page, open, accept !== false, promptText);
+  return {
+    success: true,
+    dialogs: [{ ...open.info }],
+    url: page.url(),
+  };
+}
+
+/**
+ * Whether a console entry is at least the requested level
+ */
+function consoleLevelMatches(entryLevel: string, level: 'all' | 'warning' | 'error'): boolean {
+  if (level === 'error') {
+    return entryLevel === 'error' || entryLevel === 'assert' || entryLevel === 'exception';
+  }
+  if (level === 'warning') {
+    return entryLevel === 'warning' || consoleLevelMatches(entryLevel, 'error');
+  }
+  return true;
+}
+
+/**
+ * One console line, e.g. [12:00:01.250] exception: TypeError: x is undefined (https://site/app.js:12)
+ */
+function formatConsoleEntry(entry: ConsoleEntry): string {
+  const time = new Date(entry.timestamp).toISOString().slice(11, 23);
+  const location = entry.url ? ` (${entry.url}${entry.line ? `:${entry.line}` : ''})` : '';
+  return `[${time}] ${entry.level}: ${entry.text}${location}`;
+}
+
+/**
+ * List the page's recorded XHR/fetch responses, or read one body (narrowed to path)
+ */
+async function handleNetworkRequests({
+  urlPattern, requestId, path, offset, includeNonJson = false, limit = 30,
+}: NetworkRequestsArgs): Promise<HeadlessToolResult> {
+  const page = await getPage();
+  const log = recordNetwork(page);
+
+  if (requestId) {
+    const entry = log.get(requestId);
+    if (!entry) {
+      return { success: false, error: `Request ${requestId} not found - call networkRequests() to list requests` };
+    }
+    if (entry.state !== 'finished') {
+      return { success: false, error: `Request ${requestId} is ${entry.state}` };
+    }
+
+    let body: string;
+    try {
+      body = await entry.response.text();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      return { success: false, error: `Response body is no longer available (${reason}) - reload the page and list requests again` };
+    }
+    return formatNetworkResult({ success: true, request: toRequestSummary(entry), body, url: page.url() }, path, offset) as HeadlessToolResult;
+  }
+
+  const matching = Array.from(log.values())
+    .filter(entry => includeNonJson || isJsonMimeType(entry.mimeType))
+    .filter(entry => !urlPattern || urlMatches(entry.url, urlPattern));
+
+  return {
+    success: true,
+    requests: matching.slice(-limit).map(toRequestSummary),
+    total: matching.length,
+    hint: matching.length === 0 ? 'No matching requests recorded yet - reload the page or trigger the request (scroll, filter) and list again' : undefined,
+    url: page.url(),
+  };
+}
+
+function toRequestSummary({ requestId, method, url, status, mimeType, size }: RecordedResponse): NetworkRequestSummary {
+  return { requestId, method, url, status, mimeType, size };
+}
+
+/**
+ * Read an API extractor's rows from the latest matching response of the page
+ */
+async function readApiRows(page: Page, api: ExtractorApiSource) {
+  const latest = Array.from(recordNetwork(page).values())
+    .filter(entry => entry.state === 'finished' && isJsonMimeType(entry.mimeType) && urlMatches(entry.url, api.urlPattern))
+    .at(-1);
+  if (!latest) {
+    return { error: `No recorded response matches ${api.urlPattern} - reload the page so the API call is recorded, then run the extractor again` };
+  }
+
+  let json: unknown;
+  try {
+    json = await latest.response.json();
+  } catch {
+    return { error: `Response from ${latest.url} is not JSON` };
+  }
+  const mapped = extractApiRows(json, api);
+  return 'error' in mapped ? mapped : { ...mapped, source: latest.url };
+}
+
+/**
+ * Run a saved extractor's stored selectors on the current page
+ * (same contract as the runExtractor tool in the live tab)
+ */
+async function handleRunExtractor({
+  name, expectedMinRows, frame,
+}: { name: string; expectedMinRows?: number; frame?: FrameTarget }): Promise<HeadlessToolResult> {
+  const entry = getExtractorByName(await loadManifest(), name);
+  if (!entry) {
+    return { success: false, error: `Extractor not found: ${name}` };
+  }
+  if (entry.api) {
+    const page = await getPage();
+    const apiRows = await readApiRows(page, entry.api);
+    if ('error' in apiRows) {
+      return { success: false, error: apiRows.error };
+    }
+    return {
+      ...buildExtractionReport({ data: apiRows.rows, expectedColumns: entry.fields, expectedMinRows, schema: entry.schema }),
+      data: applySchema(apiRows.rows, entry.schema),
+      source: apiRows.source,
+      url: page.url(),
+    };
+  }
+  if (!entry.selectors) {
+    return { success: false, error: `Extractor ${name} has no stored selectors. Use extract() instead.` };
+  }
+
+  const page = await getPage();
+  const data = await extractRows(page, entry.selectors, frame);
+
+  return {
+    ...buildExtractionReport({ data, expectedColumns: entry.fields, expectedMinRows, schema: entry.schema }),
+    data: applySchema(data, entry.schema),
+    url: page.url(),
+  };
+}
+
+interface CrawlArgs {
+  name: string;
+  nextSelector?: string;
+  urlTemplate?: string;
+  startPage?: number;
+  maxPages?: number;
+  delayMs?: number;
+  expectedMinRows?: number;
+  frame?: FrameTarget;
+}
+
+/**
+ * Run a saved extractor across paginated pages
+ * (same contract as the crawl tool in the live tab)
+ */
+async function handleCrawl({
+  name, nextSelector, urlTemplate, startPage = 1, maxPages = 5, delayMs = 1000, expectedMinRows, frame,
+}: CrawlArgs): Promise<HeadlessToolResult> {
+  const entry = getExtractorByName(await loadManifest(), name);
+  if (!entry) {
+    return { success: false, error: `Extractor not found: ${name}` };
+  }
+  if (!entry.selectors) {
+    return { success: false, error: `Extractor ${name} has no stored selectors` };
+  }
+  if (!nextSelector && !urlTemplate) {
+    return { success: false, error: 'Either nextSelector or urlTemplate is required' };
+  }
+
+  const page = await getPage();
+  const policy = await loadDomainPolicy();
+  const rows: Record<string, string>[] = [];
+  const seen = new Set<string>();
+  const pageUrls: string[] = [];
+  let duplicates = 0;
+  let stoppedReason = 'maxPages';
+
+  for (let i = 0; i < maxPages; i++) {
+    // Load the page (the first page of a nextSelector crawl is the current one)
+    if (urlTemplate) {
+      const pageUrl = urlTemplate.replace('{page}', String(startPage + i));
+      const decision = checkDomain(policy, pageUrl, 'navigate');
+      const blocked = decision.allowed ? await gotoAllowed(page, pageUrl) : policyBlocked(decision.reason);
+      if (blocked) {
+        stoppedReason = blocked.error ?? 'blocked';
+        break;
+      }
+    }
+    pageUrls.push(page.url());
+
+    let newRows = 0;
+    for (const row of await extractRows(page, entry.selectors, frame)) {
+      const key = JSON.stringify(row);
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      rows.push(row);
+      newRows++;
+    }
+
+    // Nothing new (empty page or pagination loop) - stop
+    if (newRows === 0) {
+      stoppedReason = 'noNewRows';
+      break;
+    }
+
+    if (i === maxPages - 1) break;
+
+    if (nextSelector) {
+      const nextLink = await findElement(page, { selector: nextSelector }, frame);
+      const nextUrl = typeof nextLink === 'string'
+        ? null
+        : await nextLink.evaluate(el => (el as HTMLAnchorElement).href || null);
+      if (!nextUrl) {
+        stoppedReason = 'noNextLink';
+        break;
+      }
+      const decision = checkDomain(policy, nextUrl, 'navigate');
+      const blocked = decision.allowed ? await gotoAllowed(page, nextUrl) : policyBlocked(decision.reason);
+      if (blocked) {
+        stoppedReason = blocked.error ?? 'blocked';
+        break;
+      }
+    }
+
+    // Be polite between pages
+    await page.waitForTimeout(delayMs);
+  }
+
+  return {
+    ...buildExtractionReport({ data: rows, expectedColumns: entry.fields, expectedMinRows, schema: entry.schema }),
+    data: applySchema(rows, entry.schema),
+    pages: pageUrls.length,
+    pageUrls,
+    duplicatesRemoved: duplicates,
+    stoppedReason,
+    url: page.url(),
+    title: await page.title(),
+  };
+}
+
+/**
+ * Run a saved extractor (extractors/<name>.ts) in the headless browser
+ * Navigates to `url` first if given, otherwise runs on the current page.
+ */
+export async function runSavedExtractor(
+  name: string,
+  url?: string
+): Promise<{ success: boolean; data?: ExtractedRow[]; url?: string; error?: string }> {
+  let extractor: ExtractorModule;
+  try {
+    extractor = await import(`../../extractors/${name}`);
+  } catch {
+    return { success: false, error: `Extractor not found: ${name}` };
+  }
+
+  try {
+    if (url) {
+      const navigation = await handleNavigate({ url });
+      if (!navigation.success) {
+        return { success: false, error: navigation.error };
+      }
+    }
+
+    const page = await getPage();
+    const data = await extractor.extract(page);
+    return { success: true, data, url: page.url() };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Extractor run failed' };
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * LLM provider registry
+ *
+ * Resolves the language model used by /api/chat. A model can be picked per
+ * request (the `model` field of the request body) or from server config
+ * (the LLM_MODEL env var). Every registered model must have a matching
+ * entry in the PRICING table in token-cost.ts.
+ *
+ * The `local` model points at any OpenAI-compatible endpoint (Ollama,
+ * vLLM, LM Studio, a CI stand-in, ...) configured via:
+ *   OPENAI_COMPATIBLE_BASE_URL  (default: http://localhost:11434/v1)
+ *   OPENAI_COMPATIBLE_MODEL     (default: local-model)
+ *   OPENAI_COMPATIBLE_API_KEY   (optional)
+ */
+
+import { anthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import { DEFAULT_MODEL, hasPricing } from './token-cost';
+
+export type ProviderName = 'anthropic' | 'openai-compatible';
+
+export interface ModelEntry {
+  id: string;
+  provider: ProviderName;
+  create: () => LanguageModel;
+}
+
+export interface ResolvedModel {
+  id: string;
+  provider: ProviderName;
+  model: LanguageModel;
+}
+
+const MODELS: ModelEntry[] = [
+  {
+    id: 'claude-sonnet-4-20250514',
+    provider: 'anthropic',
+    create: () => anthropic('claude-sonnet-4-20250514'),
+  },
+  {
+    id: 'local',
+    provider: 'openai-compatible',
+    create: () => {
+      const provider = createOpenAICompatible({
+        name: 'local',
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+      return provider.chatModel(process.env.OPENAI_COMPATIBLE_MODEL || 'local-model');
+    },
+  },
+];
+
+/**
+ * List the ids of all registered models
+ */
+export function listModels(): string[] {
+  return MODELS.map(m => m.id);
+}
+
+/**
+ * Resolve the model for a request
+ * Falls back to LLM_MODEL, then to the default model.
+ * Returns null if the requested model is not registered.
+ */
+export function resolveModel(requested?: string): ResolvedModel | null {
+  const id = requested || process.env.LLM_MODEL || DEFAULT_MODEL;
+  const entry = MODELS.find(m => m.id === id);
+
+  if (!entry || !hasPricing(entry.id)) {
+    return null;
+  }
+
+  return {
+    id: entry.id,
+    provider: entry.provider,
+    model: entry.create(),
+  };
+}
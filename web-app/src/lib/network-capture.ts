@@ -0,0 +1,189 @@
+/**
+ * Captured network responses
+ *
+ * Many storefronts load their listings from JSON APIs. The extension (CDP
+ * Network domain) and the headless browser record the page's XHR/fetch
+ * responses for the networkRequests tool; this module turns a recorded body
+ * into something the model can read (a path into the JSON plus a map of the
+ * arrays it contains) and maps API items to extractor rows.
+ */
+
+import type { ExtractorApiSource } from './extractor-manifest';
+import { MAX_CONTENT_CHARS } from './tool-result';
+
+// Recorded XHR/fetch request, as listed by networkRequests
+export interface NetworkRequestSummary {
+  requestId: string;
+  method: string;
+  url: string;
+  status: number | null;
+  mimeType: string | null;
+  size: number | null;
+}
+
+// An array of objects inside a JSON body - candidate items for extraction
+export interface JsonArraySummary {
+  path: string;
+  length: number;
+  fields: string[];
+}
+
+const MAX_ARRAY_SUMMARIES = 10;
+const MAX_SUMMARY_DEPTH = 5;
+const MAX_SUMMARY_FIELDS = 20;
+
+/**
+ * Whether a response is JSON (application/json, +json types, JSON text)
+ */
+export function isJsonMimeType(mimeType: string | null | undefined): boolean {
+  return !!mimeType && /[/+]json\b/i.test(mimeType);
+}
+
+/**
+ * Read a dot path from a JSON value ("data.products", "items.0.price")
+ * Numeric segments index arrays. An empty path returns the value itself.
+ */
+export function getJsonPath(value: unknown, path?: string): unknown {
+  if (!path) return value;
+
+  let current = value;
+  for (const key of path.split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Find the arrays of objects in a JSON value, largest first
+ */
+export function summarizeJsonArrays(value: unknown, basePath = ''): JsonArraySummary[] {
+  const summaries: JsonArraySummary[] = [];
+
+  const visit = (node: unknown, path: string, depth: number) => {
+    if (depth > MAX_SUMMARY_DEPTH || node === null || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      const first = node.find(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+      if (first) {
+        summaries.push({
+          path,
+          length: node.length,
+          fields: Object.keys(first).slice(0, MAX_SUMMARY_FIELDS),
+        });
+        // Nested arrays of the first item (e.g. variants of a product)
+        visit(first, path ? `${path}.0` : '0', depth + 1);
+      }
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      visit(child, path ? `${path}.${key}` : key, depth + 1);
+    }
+  };
+
+  visit(value, basePath, 0);
+  return summaries
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_ARRAY_SUMMARIES);
+}
+
+/**
+ * One page of a JSON value: the items of an array (or entries of an object)
+ * from offset on, as many as fit into the content limit. Items are never cut,
+ * so the content stays valid JSON.
+ */
+function pageJson(value: unknown, offset: number): { content: string; offset?: number; total?: number; nextOffset?: number } {
+  if (value === null || typeof value !== 'object') {
+    return { content: JSON.stringify(value) };
+  }
+
+  const entries = Array.isArray(value) ? value : Object.entries(value);
+  const toJson = (items: unknown[]) => JSON.stringify(Array.isArray(value) ? items : Object.fromEntries(items as Array<[string, unknown]>));
+  let end = offset;
+  let size = 2;
+  while (end < entries.length) {
+    size += JSON.stringify(entries[end]).length + 1;
+    // Always return at least one item, even one over the limit
+    if (size > MAX_CONTENT_CHARS && end > offset) break;
+    end++;
+  }
+
+  return {
+    content: toJson(entries.slice(offset, end)),
+    offset,
+    total: entries.length,
+    ...(end < entries.length ? { nextOffset: end } : {}),
+  };
+}
+
+/**
+ * Turn a raw networkRequests result into what the model sees
+ * Body results ({request, body}) are parsed and narrowed to path, and long
+ * arrays/objects come in pages (offset, nextOffset); list results pass
+ * through unchanged.
+ */
+export function formatNetworkResult(result: unknown, path?: string, offset = 0): unknown {
+  if (!result || typeof result !== 'object') return result;
+  const { body, request, ...rest } = result as Record<string, unknown> & {
+    body?: unknown;
+    request?: NetworkRequestSummary;
+  };
+  if (typeof body !== 'string' || !request) return result;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    // Not JSON after all - return the text (truncated like extract content)
+    return { ...rest, success: true, request, content: body };
+  }
+
+  const selected = getJsonPath(json, path);
+  if (selected === undefined) {
+    return {
+      success: false,
+      error: `Nothing at path "${path}"`,
+      request,
+      arrays: summarizeJsonArrays(json),
+    };
+  }
+
+  return {
+    ...rest,
+    success: true,
+    request,
+    path: path || '',
+    // JSON, not HTML - keeps it out of tag stripping
+    format: 'json',
+    ...pageJson(selected, offset),
+    // Where the listings are - pass one of these as path (or as the extractor's itemsPath)
+    arrays: summarizeJsonArrays(selected, path || ''),
+  };
+}
+
+/**
+ * Map the items of an API response to extractor rows
+ */
+export function extractApiRows(
+  json: unknown,
+  api: ExtractorApiSource
+): { rows: Array<Record<string, unknown>> } | { error: string } {
+  const items = getJsonPath(json, api.itemsPath);
+  if (!Array.isArray(items)) {
+    return { error: `No array at "${api.itemsPath}" in the API response` };
+  }
+
+  const rows = items.map(item => {
+    const row: Record<string, unknown> = {};
+    for (const [field, fieldPath] of Object.entries(api.fields)) {
+      const value = getJsonPath(item, fieldPath);
+      // Leave strings, numbers and lists for applySchema; flatten anything else to text
+      row[field] = value === undefined || value === null
+        ? ''
+        : typeof value === 'object' && !Array.isArray(value) ? JSON.stringify(value) : value;
+    }
+    return row;
+  });
+  return { rows };
+}
@@ -0,0 +1,192 @@
+/**
+ * Prompt-injection hardening
+ *
+ * Page content is data, never instructions. Before it reaches the model it is
+ * wrapped in delimited untrusted blocks and scanned for common injection
+ * phrasing. Findings travel with the tool result (`injectionWarnings`), and
+ * the action policy flags or blocks actions (navigating, typing, choosing,
+ * clicking and submitting) made in the same task after suspicious content was
+ * read. Read-only tools (extract, scroll, hover, ...) stay unguarded - they
+ * can't send anything anywhere.
+ */
+
+import type { UIMessage } from 'ai';
+
+export const UNTRUSTED_START = '<<<UNTRUSTED_PAGE_CONTENT>>>';
+export const UNTRUSTED_END = '<<<END_UNTRUSTED_PAGE_CONTENT>>>';
+
+export interface InjectionFinding {
+  rule: string;
+  excerpt: string;
+}
+
+export type PolicyDecision =
+  | { action: 'allow' }
+  | { action: 'flag' | 'block'; reason: string };
+
+const INJECTION_RULES: Array<{ rule: string; pattern: RegExp }> = [
+  {
+    rule: 'override-instructions',
+    pattern: /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|your)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions)\b/i,
+  },
+  {
+    rule: 'role-reassignment',
+    pattern: /\byou are (now|no longer)\b|\bact as (an? )?(unrestricted|jailbroken|developer mode)|\bnew instructions?\s*:/i,
+  },
+  {
+    rule: 'system-prompt',
+    pattern: /\bsystem (prompt|message)\b|<\/?system>|\[system\]|#{2,}\s*system\b/i,
+  },
+  {
+    rule: 'tool-directive',
+    pattern: /\b(navigate|go|redirect|browse|open)\s+to\s+(https?:\/\/|www\.)\S+/i,
+  },
+  {
+    rule: 'credential-request',
+    pattern: /\b(enter|type|send|submit|reveal|provide)\b[^.\n]{0,30}\b(password|api key|credentials?|credit card|token|secret)\b/i,
+  },
+  {
+    rule: 'exfiltration',
+    pattern: /\b(send|post|upload|forward|exfiltrate)\b[^.\n]{0,40}\b(conversation|chat history|messages|cookies|session)\b[^.\n]{0,20}\bto\b/i,
+  },
+  {
+    rule: 'delimiter-spoof',
+    pattern: /<<<\s*(END_)?UNTRUSTED/i,
+  },
+];
+
+// Tools that act on the outside world and can be steered by injected text -
+// clicks and Enter can submit a form, options and checkboxes change what it sends
+const GUARDED_TOOLS = new Set([
+  'navigate', 'openTab', 'type', 'pressKey', 'selectOption', 'check', 'uncheck', 'click', 'dragAndDrop',
+]);
+
+const MAX_FINDINGS = 5;
+const EXCERPT_RADIUS = 60;
+
+/**
+ * Scan text for injection patterns
+ */
+export function scanForInjection(text: string): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+
+  for (const { rule, pattern } of INJECTION_RULES) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const start = Math.max(0, match.index - EXCERPT_RADIUS);
+    const end = Math.min(text.length, match.index + match[0].length + EXCERPT_RADIUS);
+    findings.push({ rule, excerpt: text.slice(start, end).replace(/\s+/g, ' ').trim() });
+
+    if (findings.length >= MAX_FINDINGS) break;
+  }
+  return findings;
+}
+
+/**
+ * Wrap page content in an untrusted block
+ * Delimiter look-alikes inside the content are removed so the page can't close the block early.
+ */
+export function wrapUntrusted(text: string): string {
+  const neutralized = text.replace(/<<<|>>>/g, '');
+  return `${UNTRUSTED_START}\n${neutralized}\n${UNTRUSTED_END}`;
+}
+
+/**
+ * Strip the untrusted block delimiters (for display)
+ */
+export function unwrapUntrusted(text: string): string {
+  const start = text.indexOf(UNTRUSTED_START);
+  if (start < 0) return text;
+  return text
+    .slice(start + UNTRUSTED_START.length)
+    .replace(UNTRUSTED_END, '')
+    .trim();
+}
+
+/**
+ * Get the injection findings attached to a tool result
+ */
+export function getInjectionWarnings(result: unknown): InjectionFinding[] {
+  if (!result || typeof result !== 'object') return [];
+  const warnings = (result as Record<string, unknown>).injectionWarnings;
+  return Array.isArray(warnings) ? warnings as InjectionFinding[] : [];
+}
+
+/**
+ * Collect injection findings from tool results of the current task
+ * (everything after the last user message)
+ */
+export function collectInjectionFindings(messages: UIMessage[]): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'user') break;
+
+    for (const part of message.parts) {
+      if (part.type.startsWith('tool-') && 'output' in part) {
+        findings.push(...getInjectionWarnings(part.output));
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Decide whether a tool call may run after suspicious content was read
+ * Blocks when the call acts on what the injected text asked for (its URL,
+ * its text, or a credential/exfiltration request); flags it otherwise.
+ */
+export function evaluateActionPolicy(
+  toolName: string,
+  input: unknown,
+  findings: InjectionFinding[]
+): PolicyDecision {
+  if (!GUARDED_TOOLS.has(toolName) || findings.length === 0) {
+    return { action: 'allow' };
+  }
+
+  const args = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const excerpts = findings.map(f => f.excerpt.toLowerCase());
+  const rules = [...new Set(findings.map(f => f.rule))].join(', ');
+
+  if ((toolName === 'navigate' || toolName === 'openTab') && typeof args.url === 'string') {
+    const target = args.url.replace(/^https?:\/\//, '').split(/[/?#]/)[0].toLowerCase();
+    if (target && excerpts.some(e => e.includes(target))) {
+      return { action: 'block', reason: `navigation to ${target} was requested by suspicious page content (${rules})` };
+    }
+  }
+
+  if (toolName === 'type') {
+    const text = typeof args.text === 'string' ? args.text.toLowerCase() : '';
+    if (findings.some(f => f.rule === 'credential-request' || f.rule === 'exfiltration')) {
+      return { action: 'block', reason: `typing after page content asked for credentials or data (${rules})` };
+    }
+    if (text.length >= 4 && excerpts.some(e => e.includes(text))) {
+      return { action: 'block', reason: `typed text matches suspicious page content (${rules})` };
+    }
+  }
+
+  if (toolName === 'pressKey' && typeof args.key === 'string' && /\bEnter$/.test(args.key) && findings.some(f => f.rule === 'credential-request' || f.rule === 'exfiltration')) {
+    return { action: 'block', reason: `submitting after page content asked for credentials or data (${rules})` };
+  }
+
+  if (toolName === 'selectOption') {
+    const values = [args.values].flat()
+      .filter((value): value is string => typeof value === 'string' && value.length >= 4)
+      .map(value => value.toLowerCase());
+    if (values.some(value => excerpts.some(e => e.includes(value)))) {
+      return { action: 'block', reason: `chosen option matches suspicious page content (${rules})` };
+    }
+  }
+
+  return { action: 'flag', reason: `${toolName} follows page content with possible prompt injection (${rules})` };
+}
+
+/**
+ * Result returned instead of running a blocked tool call
+ */
+export function blockedResult(reason: string) {
+  return { success: false, policyBlocked: true, error: `Blocked by content policy: ${reason}` };
+}
@@ -0,0 +1,68 @@
+/**
+ * Session transcript client
+ *
+ * Reports tool calls executed in the browser (extension) to the session
+ * store, so transcripts cover the client side of a run too, and saves the
+ * screenshots and page archives they capture as session artifacts.
+ */
+
+import type { Artifact } from './artifact-store';
+import type { ToolCallEvent } from './session-store';
+
+/**
+ * Record a client-executed tool call
+ * Fire-and-forget: logging must never block or fail the tool call.
+ */
+export function recordToolCall(sessionId: string, event: Omit<ToolCallEvent, 'type'>): void {
+  fetch(`/api/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: 'tool', ...event }),
+  }).catch(() => {
+    // Transcript is best-effort
+  });
+}
+
+/**
+ * Save a data URL as a session artifact
+ * Returns null if the upload fails.
+ */
+async function uploadArtifact(sessionId: string, dataUrl: string, name: string): Promise<Artifact | null> {
+  try {
+    const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/artifacts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ dataUrl, name }),
+    });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a tool result's screenshot as a session artifact
+ * The image is replaced by the artifact (the server reads it back for the model).
+ * The result is returned unchanged if there is no screenshot or the upload fails.
+ */
+export async function attachScreenshot(sessionId: string, toolName: string, result: unknown): Promise<unknown> {
+  const { screenshot, ...rest } = (result ?? {}) as { screenshot?: unknown };
+  if (typeof screenshot !== 'string') return result;
+
+  const artifact = await uploadArtifact(sessionId, screenshot, toolName);
+  return artifact ? { ...rest, artifact } : result;
+}
+
+/**
+ * Save an archivePage result's file as a session artifact
+ * The file is replaced by the artifact - it is far too large for the model.
+ */
+export async function attachArchive(sessionId: string, result: unknown): Promise<unknown> {
+  const { file, ...rest } = (result ?? {}) as { file?: unknown };
+  if (typeof file !== 'string') return result;
+
+  const artifact = await uploadArtifact(sessionId, file, 'archive');
+  return artifact
+    ? { ...rest, artifact }
+    : { success: false, error: 'Saving the archive failed' };
+}
@@ -0,0 +1,171 @@
+/**
+ * Session Transcript Store
+ *
+ * Appends every /api/chat turn and every client-side tool execution to a
+ * JSONL file per chat session (./data/sessions/<id>.jsonl), so a run can be
+ * inspected after the browser tab is gone.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { UIMessage } from 'ai';
+import type { Termination } from './agent-budget';
+
+const SESSIONS_DIR = './data/sessions';
+
+export interface TurnStep {
+  text: string;
+  toolCalls: Array<{ toolCallId: string; toolName: string; input: unknown }>;
+  toolResults: Array<{ toolCallId: string; toolName: string; output: unknown }>;
+  toolErrors: Array<{ toolCallId: string; toolName: string; error: string }>;
+  finishReason: string;
+  usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number };
+}
+
+/**
+ * One /api/chat request: the message that triggered it and the steps it ran
+ */
+export interface TurnEvent {
+  type: 'turn';
+  at: string;
+  durationMs: number;
+  model: string;
+  headless: boolean;
+  input?: UIMessage;
+  steps: TurnStep[];
+  termination?: Termination;
+}
+
+/**
+ * One browser tool executed by the client (extension) during a turn
+ */
+export interface ToolCallEvent {
+  type: 'tool';
+  at: string;
+  durationMs: number;
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output: unknown;
+  success: boolean;
+  error?: string;
+}
+
+export type SessionEvent = TurnEvent | ToolCallEvent;
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: number;
+  toolCalls: number;
+}
+
+/**
+ * Session ids come from the client - only allow plain ids (no path segments)
+ * A missing id must not pass as the string "undefined".
+ */
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === 'string' && /^[\w-]{1,128}$/.test(id);
+}
+
+function sessionPath(id: string): string {
+  return path.join(SESSIONS_DIR, `${id}.jsonl`);
+}
+
+/**
+ * Append an event to a session's transcript
+ */
+export async function appendSessionEvent(id: string, event: SessionEvent): Promise<void> {
+  if (!isValidSessionId(id)) {
+    throw new Error(`Invalid session id: ${id}`);
+  }
+
+  await fs.mkdir(SESSIONS_DIR, { recursive: true });
+  await fs.appendFile(sessionPath(id), JSON.stringify(event) + '\n', 'utf-8');
+}
+
+/**
+ * Read all events of a session
+ * Returns null if the session doesn't exist
+ */
+export async function readSession(id: string): Promise<SessionEvent[] | null> {
+  if (!isValidSessionId(id)) return null;
+
+  let content: string;
+  try {
+    content = await fs.readFile(sessionPath(id), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const events: SessionEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Skip a line cut short by a crash mid-write
+    }
+  }
+  return events;
+}
+
+/**
+ * List all sessions, most recently updated first
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(SESSIONS_DIR);
+  } catch {
+    return [];
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of files.filter(f => f.endsWith('.jsonl'))) {
+    const id = file.slice(0, -'.jsonl'.length);
+    const events = await readSession(id);
+    if (!events || events.length === 0) continue;
+    summaries.push(summarizeSession(id, events));
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Delete a session
+ * Returns false if the session doesn't exist
+ */
+export async function deleteSession(id: string): Promise<boolean> {
+  if (!isValidSessionId(id)) return false;
+
+  try {
+    await fs.unlink(sessionPath(id));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Summarize a session (title = first user message)
+ */
+function summarizeSession(id: string, events: SessionEvent[]): SessionSummary {
+  const turns = events.filter((e): e is TurnEvent => e.type === 'turn');
+  const firstUserTurn = turns.find(t => t.input?.role === 'user');
+  const title = firstUserTurn?.input?.parts
+    .map(p => (p.type === 'text' ? p.text : ''))
+    .join('')
+    .slice(0, 100) || 'Untitled session';
+
+  return {
+    id,
+    title,
+    createdAt: events[0].at,
+    updatedAt: events[events.length - 1].at,
+    turns: turns.length,
+    toolCalls: events.length - turns.length,
+  };
+}
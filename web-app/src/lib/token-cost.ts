@@ -1,5 +1,10 @@
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+// USD per million tokens. Keep in sync with the models in llm-providers.ts
 const PRICING: Record<string, { input: number; output: number }> = {
   'claude-sonnet-4-20250514': { input: 3.00, output: 15.00 },
+  // Self-hosted OpenAI-compatible model (dev/CI stand-in)
+  'local': { input: 0, output: 0 },
 };
 
 export interface TokenUsage {
@@ -8,8 +13,12 @@ export interface TokenUsage {
   totalTokens: number;
 }
 
-export function calculateCost(usage: TokenUsage, model = 'claude-sonnet-4-20250514') {
-  const pricing = PRICING[model] ?? PRICING['claude-sonnet-4-20250514'];
+export function hasPricing(model: string): boolean {
+  return model in PRICING;
+}
+
+export function calculateCost(usage: TokenUsage, model = DEFAULT_MODEL) {
+  const pricing = PRICING[model] ?? PRICING[DEFAULT_MODEL];
   const inputCost = (usage.inputTokens / 1_000_000) * pricing.input;
   const outputCost = (usage.outputTokens / 1_000_000) * pricing.output;
   return {
@@ -0,0 +1,126 @@
+/**
+ * Tool result post-processing
+ *
+ * Shrinks browser tool results before they reach the model. Shared by the
+ * client (extension results) and the server (headless results). Page content
+ * is wrapped as untrusted and scanned for prompt injection on the way.
+ */
+
+import type { JSONValue } from 'ai';
+import { scanForInjection, wrapUntrusted, type InjectionFinding } from './prompt-injection';
+
+// Rows the model sees from bulk tools (crawl) - the UI keeps the full set
+const MAX_MODEL_ROWS = 20;
+
+// Token optimization: Preprocess HTML and limit content size
+export const MAX_CONTENT_CHARS = 6000; // ~1500 tokens - balance between speed and quality
+
+// Strip only truly useless HTML elements (conservative approach)
+export const preprocessHtml = (html: string): string => {
+  // Only remove elements that NEVER contain useful product data
+  let cleaned = html
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
+    .replace(/<svg\b[^<]*(?:(?!<\/svg>)<[^<]*)*<\/svg>/gi, '')
+    .replace(/<noscript\b[^<]*(?:(?!<\/noscript>)<[^<]*)*<\/noscript>/gi, '')
+    .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '') // Remove comments
+    // Remove data attributes and event handlers to reduce noise
+    .replace(/\s(data-[a-z-]+|on[a-z]+)="[^"]*"/gi, '')
+    .replace(/\s(class|id)="[^"]*"/gi, '') // Remove class/id attributes
+    .replace(/<[^>]+>/g, ' ') // Strip all HTML tags, keep text
+    .replace(/\s+/g, ' ') // Collapse whitespace
+    .trim();
+  return cleaned;
+};
+
+export const truncateToolResult = (result: unknown): unknown => {
+  if (typeof result === 'string') {
+    // Preprocess if it looks like HTML
+    let processed = result;
+    if (result.includes('<') && result.includes('>')) {
+      processed = preprocessHtml(result);
+    }
+    if (processed.length > MAX_CONTENT_CHARS) {
+      processed = processed.slice(0, MAX_CONTENT_CHARS) + `\n\n[... truncated ...]`;
+    }
+    const findings = scanForInjection(processed);
+    const warning = findings.length > 0
+      ? `[WARNING: possible prompt injection in page content (${findings.map(f => f.rule).join(', ')})]\n`
+      : '';
+    return warning + wrapUntrusted(processed);
+  }
+  if (result && typeof result === 'object') {
+    const obj = result as Record<string, unknown>;
+    const truncated: Record<string, unknown> = { ...obj };
+    const findings: InjectionFinding[] = [];
+    // Markdown extracts and JSON bodies are already clean - stripping "tags" would eat
+    // markdown's line breaks and JSON strings containing < and >
+    const isClean = obj.format === 'markdown' || obj.format === 'json';
+    for (const key of ['data', 'content', 'html', 'text', 'result']) {
+      if (typeof truncated[key] === 'string') {
+        let val = truncated[key] as string;
+        // Preprocess HTML content
+        if (!isClean && val.includes('<') && val.includes('>')) {
+          val = preprocessHtml(val);
+        }
+        if (val.length > MAX_CONTENT_CHARS) {
+          val = val.slice(0, MAX_CONTENT_CHARS) + `\n\n[... truncated ...]`;
+        }
+        findings.push(...scanForInjection(val));
+        truncated[key] = wrapUntrusted(val);
+      } else if (Array.isArray(truncated[key])) {
+        // Extracted rows keep their structure (the UI renders them) but are still scanned
+        findings.push(...scanForInjection(JSON.stringify(truncated[key])));
+      }
+    }
+    // Dialog messages are written by the page too
+    if (Array.isArray(obj.dialogs)) {
+      truncated.dialogs = obj.dialogs.map((dialog: { message?: unknown }) => {
+        if (typeof dialog?.message !== 'string') return dialog;
+        const message = dialog.message.slice(0, MAX_CONTENT_CHARS);
+        findings.push(...scanForInjection(message));
+        return { ...dialog, message: wrapUntrusted(message) };
+      });
+    }
+    if (findings.length > 0) {
+      truncated.injectionWarnings = findings;
+    }
+    return truncated;
+  }
+  return result;
+};
+
+/**
+ * toModelOutput for screenshot: the image goes to the model as an image
+ * part, the rest of the result (marks, snapshot lines) as text next to it
+ */
+export const screenshotToModelOutput = ({ output }: { output: unknown }) => {
+  const { screenshot, ...rest } = (output && typeof output === 'object' ? output : {}) as Record<string, unknown>;
+  const image = typeof screenshot === 'string' ? /^data:(image\/[\w+.-]+);base64,(.+)$/.exec(screenshot) : null;
+  if (!image) {
+    return { type: 'json' as const, value: rest as JSONValue };
+  }
+
+  return {
+    type: 'content' as const,
+    value: [
+      { type: 'text' as const, text: JSON.stringify(rest) },
+      { type: 'image-data' as const, mediaType: image[1], data: image[2] },
+    ],
+  };
+};
+
+/**
+ * toModelOutput for tools returning many rows: the model gets the summary
+ * and a sample, the chat UI still renders every row
+ */
+export const rowsToModelOutput = ({ output }: { output: unknown }) => {
+  const obj = (output && typeof output === 'object' ? output : {}) as Record<string, unknown>;
+  const rows = Array.isArray(obj.data) ? obj.data : [];
+  const value = rows.length > MAX_MODEL_ROWS
+    ? { ...obj, data: rows.slice(0, MAX_MODEL_ROWS), note: `Showing ${MAX_MODEL_ROWS} of ${rows.length} rows. All rows are shown to the user.` }
+    : obj;
+
+  return { type: 'json' as const, value: value as JSONValue };
+};
@@ -1,4 +1,8 @@
+import type { Termination } from '@/lib/agent-budget';
+
 export interface ChatMessageMetadata {
+  model?: string;
+  termination?: Termination;
   usage?: {
     inputTokens: number;
     outputTokens: number;